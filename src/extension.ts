@@ -1,12 +1,35 @@
 import * as vscode from "vscode";
 import { GitBranchTimeTracker } from "./services/time-tracker-service";
 import { TimeTrackerWebviewProvider } from "./providers/time-tracker-webview-provider";
+import {
+  TimeTrackerTreeProvider,
+  TimeTreeNode,
+} from "./providers/time-tracker-tree-provider";
+import { TimeDataExporter } from "./services/time-data-exporter";
+import { TimeDataImporter } from "./services/time-data-importer";
+import { TimeEntryEditor } from "./services/time-entry-editor";
+import { IssueQuickPick } from "./services/issue-quick-pick";
+import { CommitTimeService } from "./services/commit-time-service";
+import { BranchLifecycle } from "./services/branch-lifecycle";
+import { affectsTrackerConfig } from "./utils/config";
+import { getLocalBranches } from "./utils/git-utils";
+
+// Kept so deactivate can wait for the last sessions to be written
+let activeTracker: GitBranchTimeTracker | undefined;
 
 export function activate(context: vscode.ExtensionContext) {
   console.log("Git Branch Time Tracker is now active!");
 
   const tracker = new GitBranchTimeTracker(context);
-  const webviewProvider = new TimeTrackerWebviewProvider(context, tracker);
+  activeTracker = tracker;
+  const commitTimes = new CommitTimeService(context, tracker);
+  const lifecycle = new BranchLifecycle(context, tracker);
+  const webviewProvider = new TimeTrackerWebviewProvider(
+    context,
+    tracker,
+    commitTimes,
+    lifecycle
+  );
 
   // Register webview provider
   context.subscriptions.push(
@@ -16,6 +39,11 @@ export function activate(context: vscode.ExtensionContext) {
     )
   );
 
+  // Sessions loaded from disk or saved by other windows
+  context.subscriptions.push(
+    tracker.onDidChangeTimeData(() => webviewProvider.refresh())
+  );
+
   // Register commands
   context.subscriptions.push(
     vscode.commands.registerCommand(
@@ -29,6 +57,15 @@ export function activate(context: vscode.ExtensionContext) {
     )
   );
 
+  context.subscriptions.push(
+    vscode.commands.registerCommand("gitBranchTimeTracker.showReports", () => {
+      webviewProvider.showReports(true);
+      vscode.commands.executeCommand(
+        "workbench.view.extension.gitBranchTimeTracker"
+      );
+    })
+  );
+
   context.subscriptions.push(
     vscode.commands.registerCommand("gitBranchTimeTracker.resetData", () => {
       vscode.window
@@ -37,15 +74,202 @@ export function activate(context: vscode.ExtensionContext) {
           "Yes, Reset",
           "Cancel"
         )
-        .then((selection) => {
+        .then(async (selection) => {
           if (selection === "Yes, Reset") {
-            tracker.resetData();
+            await tracker.resetData();
             webviewProvider.refresh();
           }
         });
     })
   );
 
+  const exporter = new TimeDataExporter(tracker);
+  context.subscriptions.push(
+    vscode.commands.registerCommand("gitBranchTimeTracker.export", () =>
+      exporter.run()
+    )
+  );
+
+  // Tree view next to the dashboard
+  const treeProvider = new TimeTrackerTreeProvider(
+    tracker,
+    lifecycle,
+    exporter
+  );
+  const treeView = vscode.window.createTreeView(
+    TimeTrackerTreeProvider.viewType,
+    { treeDataProvider: treeProvider, showCollapseAll: true }
+  );
+  const revealCurrentBranch = async (focus: boolean) => {
+    const node = treeProvider.getCurrentBranchNode();
+    if (node) {
+      await treeView.reveal(node, { select: true, focus, expand: true });
+    } else if (focus) {
+      vscode.window.showInformationMessage(
+        "No tracked branch is active right now."
+      );
+    }
+  };
+  context.subscriptions.push(
+    treeView,
+    treeProvider,
+    tracker.onDidChangeTimeData(() => treeProvider.refresh()),
+    lifecycle.onDidChange(() => treeProvider.refresh()),
+    // Follows the active session while the tree is open, including to
+    // the new branch after a checkout
+    tracker.onDidChangeTrackingState(() => {
+      treeProvider.refresh();
+      if (treeView.visible) {
+        revealCurrentBranch(false);
+      }
+    }),
+    vscode.commands.registerCommand("gitBranchTimeTracker.refreshTree", () =>
+      treeProvider.refresh()
+    ),
+    vscode.commands.registerCommand(
+      "gitBranchTimeTracker.revealCurrentBranch",
+      () => revealCurrentBranch(true)
+    ),
+    vscode.commands.registerCommand(
+      "gitBranchTimeTracker.checkoutBranch",
+      (node: TimeTreeNode) => treeProvider.checkout(node)
+    ),
+    vscode.commands.registerCommand(
+      "gitBranchTimeTracker.renameBranchTime",
+      (node: TimeTreeNode) => treeProvider.rename(node)
+    ),
+    vscode.commands.registerCommand(
+      "gitBranchTimeTracker.deleteEntries",
+      (node: TimeTreeNode) => treeProvider.delete(node)
+    ),
+    vscode.commands.registerCommand(
+      "gitBranchTimeTracker.exportEntries",
+      (node: TimeTreeNode) => treeProvider.export(node)
+    ),
+    vscode.commands.registerCommand(
+      "gitBranchTimeTracker.copySummary",
+      (node: TimeTreeNode) => treeProvider.copySummary(node)
+    )
+  );
+
+  const importer = new TimeDataImporter(tracker);
+  context.subscriptions.push(
+    vscode.commands.registerCommand("gitBranchTimeTracker.import", async () => {
+      if (await importer.run()) {
+        webviewProvider.refresh();
+      }
+    })
+  );
+
+  const issuePicker = new IssueQuickPick(tracker);
+  context.subscriptions.push(
+    vscode.commands.registerCommand("gitBranchTimeTracker.showIssues", () =>
+      issuePicker.run()
+    )
+  );
+
+  context.subscriptions.push(
+    vscode.commands.registerCommand(
+      "gitBranchTimeTracker.installCommitHook",
+      () => commitTimes.runInstallHook()
+    ),
+    vscode.commands.registerCommand(
+      "gitBranchTimeTracker.uninstallCommitHook",
+      () => commitTimes.runUninstallHook()
+    ),
+    vscode.commands.registerCommand(
+      "gitBranchTimeTracker.addTimeSpentTrailer",
+      (sourceControl?: vscode.SourceControl) =>
+        commitTimes.addTrailerToCommitMessage(sourceControl)
+    ),
+    commitTimes
+  );
+
+  context.subscriptions.push(
+    vscode.commands.registerCommand(
+      "gitBranchTimeTracker.archiveBranches",
+      () => lifecycle.runArchive()
+    ),
+    vscode.commands.registerCommand(
+      "gitBranchTimeTracker.showArchivedBranches",
+      () => lifecycle.runRestore()
+    ),
+    vscode.commands.registerCommand(
+      "gitBranchTimeTracker.showBranchSummary",
+      () => lifecycle.runShowSummary()
+    ),
+    // Merged or deleted branches and archive changes
+    lifecycle.onDidChange(() => webviewProvider.refresh()),
+    lifecycle
+  );
+
+  const editor = new TimeEntryEditor(tracker);
+  context.subscriptions.push(
+    vscode.commands.registerCommand(
+      "gitBranchTimeTracker.addEntry",
+      async () => {
+        if (await editor.add()) {
+          webviewProvider.refresh();
+        }
+      }
+    ),
+    vscode.commands.registerCommand(
+      "gitBranchTimeTracker.editEntries",
+      async () => {
+        if (await editor.edit()) {
+          webviewProvider.refresh();
+        }
+      }
+    )
+  );
+
+  context.subscriptions.push(
+    vscode.commands.registerCommand(
+      "gitBranchTimeTracker.pause",
+      async (minutes?: number) => {
+        const duration =
+          typeof minutes === "number" ? minutes : await pickPauseDuration();
+        if (duration !== undefined) {
+          tracker.pause(duration);
+        }
+      }
+    ),
+    vscode.commands.registerCommand("gitBranchTimeTracker.resume", () =>
+      tracker.resume()
+    ),
+    vscode.commands.registerCommand(
+      "gitBranchTimeTracker.startTracking",
+      async (branch?: string) => {
+        const target =
+          typeof branch === "string" ? branch : await pickBranch(tracker);
+        if (target === undefined) {
+          return;
+        }
+        let session;
+        try {
+          session = await tracker.startTracking(target || undefined);
+        } catch (error: any) {
+          vscode.window.showErrorMessage(
+            `Could not check out ${target}: ${error.message}`
+          );
+          return;
+        }
+        if (session) {
+          vscode.window.showInformationMessage(
+            `Tracking ${session.repositoryName}/${session.branch}.`
+          );
+        } else {
+          vscode.window.showWarningMessage(
+            "Open a file in a Git repository to start tracking."
+          );
+        }
+      }
+    ),
+    vscode.commands.registerCommand("gitBranchTimeTracker.stopTracking", () =>
+      tracker.stopTracking()
+    )
+  );
+
   // Status bar item
   const statusBarItem = vscode.window.createStatusBarItem(
     vscode.StatusBarAlignment.Left,
@@ -54,25 +278,59 @@ export function activate(context: vscode.ExtensionContext) {
   statusBarItem.command = "gitBranchTimeTracker.showDashboard";
   statusBarItem.show();
 
-  // Update status bar every 10 seconds
+  // Update status bar on the configured interval
   const updateStatusBar = () => {
     const status = tracker.getCurrentStatus();
-    statusBarItem.text = `$(clock) ${status}`;
-    statusBarItem.tooltip = "Git Branch Time Tracker - Click to open dashboard";
+    const paused = tracker.getPauseState() !== null;
+    statusBarItem.text = `$(${paused ? "debug-pause" : "clock"}) ${status}`;
+    statusBarItem.tooltip = paused
+      ? "Git Branch Time Tracker - Tracking is suspended. Click to open dashboard"
+      : "Git Branch Time Tracker - Click to open dashboard";
   };
 
   updateStatusBar();
-  const statusInterval = setInterval(updateStatusBar, 10000);
+  context.subscriptions.push(
+    tracker.onDidChangeTrackingState(() => {
+      updateStatusBar();
+      webviewProvider.refresh();
+    })
+  );
+
+  let statusInterval: NodeJS.Timeout;
+  let refreshInterval: NodeJS.Timeout;
+
+  const startIntervals = () => {
+    const config = tracker.getConfig();
+    statusInterval = setInterval(
+      updateStatusBar,
+      config.statusBarRefreshInterval
+    );
+
+    // Auto-refresh webview on the configured interval
+    refreshInterval = setInterval(() => {
+      webviewProvider.refresh();
+    }, config.dashboardRefreshInterval);
+  };
+
+  const stopIntervals = () => {
+    clearInterval(statusInterval);
+    clearInterval(refreshInterval);
+  };
 
-  // Auto-refresh webview every 30 seconds
-  const refreshInterval = setInterval(() => {
-    webviewProvider.refresh();
-  }, 30000);
+  startIntervals();
 
   context.subscriptions.push(
     statusBarItem,
-    { dispose: () => clearInterval(statusInterval) },
-    { dispose: () => clearInterval(refreshInterval) },
+    vscode.workspace.onDidChangeConfiguration((event) => {
+      if (affectsTrackerConfig(event)) {
+        // The tracker registers its listener first, so getConfig() is fresh
+        stopIntervals();
+        startIntervals();
+        // Days may start at another hour or in another time zone
+        treeProvider.refresh();
+      }
+    }),
+    { dispose: stopIntervals },
     { dispose: () => tracker.dispose() }
   );
 
@@ -89,6 +347,75 @@ export function activate(context: vscode.ExtensionContext) {
     });
 }
 
+/** Minutes to pause for, 0 for until resumed; undefined if cancelled. */
+async function pickPauseDuration(): Promise<number | undefined> {
+  const options = [
+    { label: "Until resumed", minutes: 0 },
+    { label: "15 minutes", minutes: 15 },
+    { label: "30 minutes", minutes: 30 },
+    { label: "1 hour", minutes: 60 },
+    { label: "Custom…", minutes: -1 },
+  ];
+  const selected = await vscode.window.showQuickPick(options, {
+    placeHolder: "Pause time tracking for",
+  });
+  if (!selected || selected.minutes >= 0) {
+    return selected?.minutes;
+  }
+
+  const value = await vscode.window.showInputBox({
+    prompt: "Minutes to pause for",
+    validateInput: (text) =>
+      /^\d+$/.test(text.trim()) && Number(text) > 0
+        ? undefined
+        : "Enter a whole number of minutes",
+  });
+  return value ? Number(value) : undefined;
+}
+
+/**
+ * Local branch of the current repository to track, recently tracked ones
+ * first; "" when there is no repository to pick from, undefined if
+ * cancelled.
+ */
+async function pickBranch(
+  tracker: GitBranchTimeTracker
+): Promise<string | undefined> {
+  const state = await tracker.getCurrentRepositoryState();
+  if (!state) {
+    return "";
+  }
+
+  const current = state.branch.name;
+  const local = await getLocalBranches(state.repository.root).catch(
+    () => [] as string[]
+  );
+  const tracked = tracker
+    .getBranches(state.repository.id)
+    .filter((branch) => branch !== current && local.includes(branch));
+  const others = local
+    .filter((branch) => branch !== current && !tracked.includes(branch))
+    .sort();
+
+  const selected = await vscode.window.showQuickPick(
+    [
+      {
+        label: `$(git-branch) ${current}`,
+        description: "current",
+        branch: current,
+      },
+      ...[...tracked, ...others].map((branch) => ({
+        label: `$(git-branch) ${branch}`,
+        description: tracked.includes(branch) ? "tracked" : "",
+        branch,
+      })),
+    ],
+    { placeHolder: `Start tracking in ${state.repository.name} on` }
+  );
+  return selected?.branch;
+}
+
 export function deactivate() {
   console.log("Git Branch Time Tracker deactivated");
+  return activeTracker?.dispose();
 }
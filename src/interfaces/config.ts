@@ -0,0 +1,18 @@
+import { ActivitySource } from "./time-tracker";
+
+export interface TrackerConfig {
+  inactivityThreshold: number; // in milliseconds
+  minimumSessionDuration: number; // in milliseconds
+  activityDebounce: number; // in milliseconds
+  batchSize: number;
+  batchTimeout: number; // in milliseconds
+  statusBarRefreshInterval: number; // in milliseconds
+  dashboardRefreshInterval: number; // in milliseconds
+  checkpointInterval: number; // in milliseconds
+  idlePromptThreshold: number; // in milliseconds, 0 to never ask
+  issueKeyPatterns: string[]; // regular expressions, tried in order
+  timeZone?: string; // IANA zone used for day bucketing, system zone if unset
+  dayStartHour: number; // 0-23
+  activitySources: { [source in ActivitySource]: boolean };
+  fileExclusions: string[]; // globs left out of the per-file breakdown
+}
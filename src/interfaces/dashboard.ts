@@ -0,0 +1,88 @@
+import { BranchStatus, ReportPeriod } from "./time-tracker";
+
+/*
+ * Messages between the dashboard webview and the extension. The page is
+ * loaded once; the extension then sends the parts of the dashboard that
+ * changed since its last update.
+ */
+
+export interface DashboardStatus {
+  text: string;
+  paused: boolean;
+  currentFolder: string; // workspace folder "current repository only" uses
+}
+
+export interface DashboardSummary {
+  repositories: number;
+  sessions: number;
+  archived: number; // branches hidden from the dashboard
+}
+
+export interface DashboardIssue {
+  key: string;
+  duration: number; // in seconds
+  branches: { label: string; duration: number }[];
+}
+
+export interface DashboardBranch {
+  key: string; // `repository|branch`
+  name: string;
+  status: BranchStatus;
+  lastActivity: number;
+  days: { date: string; duration: number }[]; // newest first
+  states: { state: string; duration: number }[];
+  sources: { label: string; duration: number }[]; // coding, terminal etc.
+  languages: { language: string; duration: number }[]; // top ones only
+  directories: { path: string; duration: number }[];
+  files: { path: string; duration: number }[];
+  commits: { shortHash: string; subject: string; duration: number }[];
+}
+
+export interface DashboardRepository {
+  key: string;
+  label: string;
+  current: boolean; // the repository of the current workspace folder
+  lastActivity: number;
+  branches: DashboardBranch[];
+}
+
+export interface DashboardReport {
+  period: ReportPeriod;
+  html: string; // rendered by the extension, user text already escaped
+}
+
+/** Changed parts of the dashboard; absent parts are unchanged. */
+export interface DashboardPatch {
+  status?: DashboardStatus;
+  summary?: DashboardSummary;
+  issues?: DashboardIssue[];
+  report?: DashboardReport | null; // null in branches mode
+  repositories?: {
+    changed: DashboardRepository[];
+    removed: string[]; // keys
+  };
+}
+
+export type ExtensionMessage = {
+  type: "update";
+  full: boolean; // the first update after the page loaded
+  patch: DashboardPatch;
+};
+
+export type WebviewMessage =
+  | {
+      command:
+        | "ready"
+        | "refresh"
+        | "reset"
+        | "showIssues"
+        | "export"
+        | "import"
+        | "pause"
+        | "resume"
+        | "addEntry"
+        | "editEntries"
+        | "showReports"
+        | "showDashboard";
+    }
+  | { command: "setReportPeriod"; period: ReportPeriod };
@@ -0,0 +1,45 @@
+import { Event, Uri } from "vscode";
+
+/*
+ * The parts of the built-in git extension's API (`vscode.git`, see
+ * extensions/git/src/api/git.d.ts in the VS Code repository) this
+ * extension uses. Names are prefixed to keep them apart from ours.
+ */
+
+export interface GitHead {
+  name?: string; // unset when detached
+  commit?: string;
+}
+
+export interface GitRepositoryState {
+  readonly HEAD: GitHead | undefined;
+  // Fires after every status refresh, including ones changing HEAD
+  readonly onDidChange: Event<void>;
+}
+
+export interface GitInputBox {
+  value: string; // the commit message in the Source Control view
+}
+
+export interface GitRepository {
+  readonly rootUri: Uri;
+  readonly state: GitRepositoryState;
+  readonly inputBox: GitInputBox;
+}
+
+export type GitAPIState = "uninitialized" | "initialized";
+
+export interface GitAPI {
+  readonly state: GitAPIState;
+  readonly repositories: GitRepository[];
+  readonly onDidChangeState: Event<GitAPIState>;
+  readonly onDidOpenRepository: Event<GitRepository>;
+  readonly onDidCloseRepository: Event<GitRepository>;
+  // The innermost open repository containing the uri
+  getRepository(uri: Uri): GitRepository | null;
+}
+
+export interface GitExtension {
+  readonly enabled: boolean; // false when `git.enabled` is off
+  getAPI(version: 1): GitAPI;
+}
@@ -1,15 +1,202 @@
 export interface TimeEntry {
   date: string;
-  repository: string;
+  repository: string; // stable repository id, see RepositoryInfo
+  repositoryName?: string; // missing on entries recorded before ids existed
   branch: string;
+  gitState?: GitState; // omitted when working normally on a branch
   duration: number; // in seconds
   startTime: number;
   endTime: number;
+  manual?: true; // added or edited by hand rather than tracked
+  idle?: IdleDecision; // what the user chose for idle time after returning
+  sources?: SourceTimes; // seconds per kind of activity, sums to duration
+  files?: FileTime[]; // most time first, time away from files not included
+  worktree?: string; // linked worktree it was tracked in, see RepositoryInfo
+}
+
+/** Time on one file during a session. */
+export interface FileTime {
+  path: string; // relative to the repository root, `/`-separated
+  language: string; // VS Code language id
+  duration: number; // in seconds
+}
+
+/** Kinds of activity that keep a session going. */
+export type ActivitySource =
+  | "coding"
+  | "reading"
+  | "terminal"
+  | "debugging"
+  | "notebook"
+  | "task";
+
+export type SourceTimes = { [source in ActivitySource]?: number };
+
+// Discarded gaps are kept as a record with a duration of 0
+export type IdleDecision = "kept" | "reassigned" | "discarded";
+
+/** Time between a session ending from inactivity and activity resuming. */
+export interface IdleGap {
+  session: ActiveSession; // the session that went idle
+  start: number;
+  end: number;
 }
 
 export interface ActiveSession {
   repository: string;
+  repositoryName: string;
   branch: string;
+  gitState: GitState;
+  root?: string; // of the worktree, unset in checkpoints of older versions
+  worktree?: string;
   startTime: number;
   lastActivity: number;
+  source?: ActivitySource; // of the latest activity
+  sources?: SourceTimes; // in milliseconds, credited up to lastActivity
+  files?: FileTime[]; // likewise
+  file?: { path: string; language: string }; // active since lastActivity
+}
+
+/** Why tracking is suspended: a (possibly timed) pause or an explicit stop. */
+export interface PauseState {
+  reason: "paused" | "stopped";
+  since: number;
+  until: number | null; // auto-resume time, null until resumed by hand
+}
+
+export interface RepositoryInfo {
+  // Normalized origin URL, or else the absolute root of the main worktree
+  // (for submodules, their directory in the superproject's .git/modules)
+  id: string;
+  name: string; // basename of the main worktree's root, for display
+  root: string; // of the worktree the path is in
+  worktree?: string; // basename of `root`, only in linked worktrees
+}
+
+export type GitState =
+  | "branch"
+  | "detached"
+  | "rebase"
+  | "merge"
+  | "cherry-pick"
+  | "revert"
+  | "bisect";
+
+export interface BranchInfo {
+  name: string; // branch name, or detached@<short-sha> when none applies
+  state: GitState;
+}
+
+export interface RepositoryState {
+  repository: RepositoryInfo;
+  branch: BranchInfo;
+}
+
+export interface HeadChangeEvent extends RepositoryState {
+  previousBranch: BranchInfo;
+  timestamp: number; // when the change was first seen on disk
+}
+
+export interface SessionCheckpoint {
+  windowId: string;
+  updatedAt: number;
+  interval: number; // checkpoint interval of the writing window, in ms
+  activeSession: ActiveSession | null;
+  pendingEntries: TimeEntry[]; // completed but not yet flushed to disk
+}
+
+export interface CorruptDataReport {
+  file: string;
+  backupPath: string;
+  invalidEntries: number; // -1 when the whole file was unreadable
+}
+
+export interface ImportConflict {
+  imported: TimeEntry;
+  existing: TimeEntry[]; // sessions it overlapped with
+  kept: number; // seconds of the imported session that were added
+}
+
+export interface MergeResult {
+  added: TimeEntry[];
+  duplicates: number; // imported sessions already fully covered
+  conflicts: ImportConflict[]; // partially overlapping, trimmed on import
+}
+
+/** Time booked to one issue key, across branches and repositories. */
+export interface IssueSummary {
+  key: string;
+  duration: number; // in seconds
+  sessions: number;
+  lastActivity: number;
+  branches: {
+    repository: string;
+    branch: string;
+    duration: number; // in seconds
+  }[];
+}
+
+export interface CommitInfo {
+  hash: string;
+  shortHash: string;
+  timestamp: number; // committer date, in ms
+  subject: string;
+}
+
+/** Tracked time between a commit and the one before it on the branch. */
+export interface CommitTime {
+  commit: CommitInfo;
+  duration: number; // in seconds
+}
+
+export interface BranchRename {
+  from: string;
+  to: string;
+  timestamp: number;
+}
+
+export type BranchStatus = "active" | "merged" | "deleted";
+
+/** Totals for one branch, shown when it is merged. */
+export interface BranchSummary {
+  repository: string;
+  branch: string;
+  duration: number; // in seconds
+  sessions: number;
+  firstDay: string; // YYYY-MM-DD
+  lastDay: string;
+}
+
+export type ReportPeriod = "thisWeek" | "lastWeek" | "thisMonth" | "custom";
+
+export interface ReportRange {
+  from: string; // inclusive YYYY-MM-DD
+  to: string;
+}
+
+/** Time per branch on one day, keyed by reportBranchKey. */
+export interface ReportDay {
+  date: string;
+  total: number; // in seconds
+  branches: { [branch: string]: number };
+}
+
+export interface ReportRow {
+  repository: string;
+  branch?: string; // unset for repository rows
+  duration: number; // in seconds
+  previousDuration: number; // in the period before, for comparison
+  sources?: SourceTimes; // set on branch rows
+}
+
+export interface Report {
+  range: ReportRange;
+  previousRange: ReportRange;
+  total: number; // in seconds
+  previousTotal: number;
+  days: ReportDay[]; // every day of the range, oldest first
+  branches: ReportRow[]; // most time first
+  repositories: ReportRow[];
+  sources: SourceTimes; // time with a recorded source only
+  heatmap: { date: string; total: number }[]; // whole weeks ending with the range
 }
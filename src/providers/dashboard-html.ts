@@ -0,0 +1,611 @@
+import * as vscode from "vscode";
+import * as crypto from "crypto";
+import { REPORT_STYLES } from "../utils/report-html";
+
+const getNonce = () => crypto.randomBytes(16).toString("hex");
+
+/**
+ * The dashboard page. It holds no data: its script asks for an update once
+ * loaded and renders what the extension sends. All user text is inserted
+ * as text, never as markup.
+ */
+export function getDashboardHtml(webview: vscode.Webview): string {
+  const nonce = getNonce();
+  return `
+        <!DOCTYPE html>
+        <html>
+        <head>
+            <meta charset="UTF-8">
+            <meta http-equiv="Content-Security-Policy" content="default-src 'none'; img-src ${webview.cspSource}; style-src ${webview.cspSource} 'unsafe-inline'; script-src 'nonce-${nonce}';">
+            <meta name="viewport" content="width=device-width, initial-scale=1.0">
+            <style>
+                body {
+                    font-family: var(--vscode-font-family);
+                    font-size: var(--vscode-font-size);
+                    padding: 10px;
+                    color: var(--vscode-foreground);
+                    background-color: var(--vscode-editor-background);
+                    margin: 0;
+                }
+                .status-bar {
+                    background-color: var(--vscode-statusBar-background);
+                    color: var(--vscode-statusBar-foreground);
+                    padding: 8px;
+                    margin: -10px -10px 15px -10px;
+                    font-size: 12px;
+                    border-bottom: 1px solid var(--vscode-panel-border);
+                }
+                .controls {
+                    margin-bottom: 15px;
+                    text-align: center;
+                }
+                .button {
+                    background-color: var(--vscode-button-background);
+                    color: var(--vscode-button-foreground);
+                    border: none;
+                    padding: 6px 12px;
+                    margin: 0 5px;
+                    border-radius: 3px;
+                    cursor: pointer;
+                    font-size: 12px;
+                }
+                .button:hover {
+                    background-color: var(--vscode-button-hoverBackground);
+                }
+                .button.secondary {
+                    background-color: var(--vscode-button-secondaryBackground);
+                    color: var(--vscode-button-secondaryForeground);
+                }
+                .button.secondary:hover {
+                    background-color: var(--vscode-button-secondaryHoverBackground);
+                }
+                .repo-section {
+                    margin-bottom: 20px;
+                    border: 1px solid var(--vscode-panel-border);
+                    border-radius: 4px;
+                    padding: 10px;
+                    background-color: var(--vscode-editor-background);
+                }
+                .repo-title {
+                    font-weight: bold;
+                    font-size: 14px;
+                    margin-bottom: 10px;
+                    color: var(--vscode-textLink-foreground);
+                    display: flex;
+                    align-items: center;
+                }
+                .collapsible {
+                    cursor: pointer;
+                    user-select: none;
+                }
+                .collapsible::before {
+                    content: "▾";
+                    width: 12px;
+                    flex-shrink: 0;
+                    color: var(--vscode-descriptionForeground);
+                }
+                .collapsed > .collapsible::before {
+                    content: "▸";
+                }
+                .collapsed > .section-body {
+                    display: none;
+                }
+                .repo-section.collapsed > .repo-title {
+                    margin-bottom: 0;
+                }
+                .repo-total {
+                    margin-left: auto;
+                    font-size: 12px;
+                    color: var(--vscode-terminal-ansiGreen);
+                }
+                .filters {
+                    display: flex;
+                    flex-wrap: wrap;
+                    align-items: center;
+                    gap: 6px;
+                    margin-bottom: 15px;
+                    font-size: 11px;
+                }
+                .filters input,
+                .filters select {
+                    background-color: var(--vscode-input-background);
+                    color: var(--vscode-input-foreground);
+                    border: 1px solid var(--vscode-input-border, transparent);
+                    border-radius: 2px;
+                    padding: 3px 4px;
+                    font-size: 11px;
+                }
+                .filters input[type="search"] {
+                    flex: 1 1 100%;
+                }
+                .filters label {
+                    display: flex;
+                    align-items: center;
+                    gap: 4px;
+                }
+                .repo-icon {
+                    margin-right: 8px;
+                }
+                .branch-item {
+                    margin-left: 15px;
+                    margin-bottom: 8px;
+                    padding: 8px;
+                    background-color: var(--vscode-list-hoverBackground);
+                    border-radius: 3px;
+                    border-left: 3px solid var(--vscode-gitDecoration-modifiedResourceForeground);
+                }
+                .branch-header {
+                    display: flex;
+                    justify-content: space-between;
+                    align-items: center;
+                    margin-bottom: 5px;
+                }
+                .branch-item.collapsed > .branch-header {
+                    margin-bottom: 0;
+                }
+                .branch-name {
+                    font-weight: 500;
+                    color: var(--vscode-gitDecoration-modifiedResourceForeground);
+                    display: flex;
+                    align-items: center;
+                }
+                .branch-icon {
+                    margin-right: 6px;
+                }
+                .total-time {
+                    font-weight: bold;
+                    color: var(--vscode-terminal-ansiGreen);
+                    font-size: 12px;
+                }
+                .lifecycle-tag {
+                    font-size: 10px;
+                    font-weight: normal;
+                    margin-left: 6px;
+                    padding: 1px 6px;
+                    border-radius: 8px;
+                    border: 1px solid var(--vscode-panel-border);
+                    color: var(--vscode-descriptionForeground);
+                }
+                .state-tags {
+                    margin-bottom: 5px;
+                }
+                .state-tag {
+                    display: inline-block;
+                    font-size: 10px;
+                    padding: 1px 6px;
+                    margin-right: 4px;
+                    border-radius: 8px;
+                    background-color: var(--vscode-badge-background);
+                    color: var(--vscode-badge-foreground);
+                }
+                .source-tag {
+                    display: inline-block;
+                    font-size: 10px;
+                    padding: 0 6px;
+                    margin-right: 4px;
+                    border-radius: 8px;
+                    border: 1px solid var(--vscode-panel-border);
+                    color: var(--vscode-descriptionForeground);
+                }
+                .commit-list,
+                .file-list {
+                    margin: 0 0 5px 10px;
+                    padding-bottom: 4px;
+                    border-bottom: 1px dashed var(--vscode-panel-border);
+                }
+                .time-entries {
+                    margin-left: 10px;
+                }
+                .time-entry {
+                    font-size: 11px;
+                    color: var(--vscode-descriptionForeground);
+                    margin-bottom: 2px;
+                    display: flex;
+                    justify-content: space-between;
+                }
+                .no-data {
+                    text-align: center;
+                    color: var(--vscode-descriptionForeground);
+                    font-style: italic;
+                    margin: 30px 0;
+                    padding: 20px;
+                    background-color: var(--vscode-inputValidation-infoBackground);
+                    border-radius: 4px;
+                }
+                .summary {
+                    background-color: var(--vscode-notifications-background);
+                    border: 1px solid var(--vscode-notifications-border);
+                    padding: 10px;
+                    border-radius: 4px;
+                    margin-bottom: 15px;
+                    font-size: 12px;
+                }
+                .no-data-icon {
+                    font-size: 24px;
+                    margin-bottom: 10px;
+                }
+                .no-data-hint {
+                    margin-top: 8px;
+                }
+                [hidden] {
+                    display: none !important;
+                }
+${REPORT_STYLES}            </style>
+        </head>
+        <body>
+            <div class="status-bar">
+                🕒 Status: <span id="status"></span>
+            </div>
+
+            <div class="controls">
+                <button class="button" data-command="refresh">🔄 Refresh</button>
+                <button class="button" id="pause-button" data-command="pause">⏸️ Pause</button>
+                <button class="button" id="mode-button" data-command="showReports">📊 Reports</button>
+                <button class="button" data-command="showIssues">🎫 Issues</button>
+                <button class="button" data-command="export">📤 Export</button>
+                <button class="button" data-command="import">📥 Import</button>
+                <button class="button" data-command="addEntry">➕ Add Entry</button>
+                <button class="button" data-command="editEntries">✏️ Edit Entries</button>
+                <button class="button secondary" data-command="reset">🗑️ Reset Data</button>
+            </div>
+
+            <div id="report" hidden></div>
+
+            <div id="branches">
+                <div id="no-data" class="no-data" hidden>
+                    <div class="no-data-icon">📊</div>
+                    <div><strong>No time data available yet</strong></div>
+                    <div class="no-data-hint">Start editing files in a Git repository to begin tracking!</div>
+                </div>
+                <div id="has-data" hidden>
+                    <div class="summary">
+                        <strong>📈 Summary:</strong> <span id="summary"></span>
+                    </div>
+                    <div id="issues" class="repo-section" hidden>
+                        <div class="repo-title">
+                            <span class="repo-icon">🎫</span>
+                            Time by Issue
+                        </div>
+                        <div id="issue-list"></div>
+                    </div>
+                    <div class="filters">
+                        <input id="search" type="search" placeholder="Search repositories and branches">
+                        <input id="from" type="date" title="From">
+                        –
+                        <input id="to" type="date" title="To">
+                        <select id="sort" title="Sort by">
+                            <option value="total">Total time</option>
+                            <option value="recent">Recent activity</option>
+                            <option value="name">Name</option>
+                        </select>
+                        <label id="current-only-label">
+                            <input id="currentOnly" type="checkbox">
+                            Current repository only
+                        </label>
+                    </div>
+                    <div id="no-matches" class="no-data" hidden>
+                        No branches match the filters
+                    </div>
+                    <div id="repositories"></div>
+                </div>
+            </div>
+
+            <script nonce="${nonce}">
+                (function () {
+                    const vscode = acquireVsCodeApi();
+
+                    // Filters, sorting, collapsed sections and the scroll
+                    // position outlive the page being unloaded while hidden;
+                    // branches start collapsed
+                    const state = Object.assign(
+                        { search: '', from: '', to: '', sort: 'total', currentOnly: false, collapsed: {}, scrollY: 0 },
+                        vscode.getState()
+                    );
+                    const saveState = () => vscode.setState(state);
+
+                    // Rendered repository sections by key
+                    const sections = new Map();
+                    const byId = (id) => document.getElementById(id);
+
+                    function el(tag, className, text) {
+                        const element = document.createElement(tag);
+                        if (className) {
+                            element.className = className;
+                        }
+                        if (text !== undefined) {
+                            element.textContent = text;
+                        }
+                        return element;
+                    }
+
+                    function formatDuration(seconds) {
+                        const hours = Math.floor(seconds / 3600);
+                        const minutes = Math.floor((seconds % 3600) / 60);
+                        if (hours > 0) {
+                            return hours + 'h ' + minutes + 'm';
+                        }
+                        return minutes > 0 ? minutes + 'm ' + (seconds % 60) + 's' : seconds + 's';
+                    }
+
+                    function row(label, duration) {
+                        const element = el('div', 'time-entry');
+                        element.append(el('span', '', label), el('span', '', formatDuration(duration)));
+                        return element;
+                    }
+
+                    function collapsible(className, key, header, body, collapsedByDefault) {
+                        const section = el('div', className);
+                        section.dataset.key = key;
+                        header.classList.add('collapsible');
+                        body.classList.add('section-body');
+                        section.append(header, body);
+                        section.classList.toggle(
+                            'collapsed',
+                            key in state.collapsed ? state.collapsed[key] : collapsedByDefault
+                        );
+                        header.addEventListener('click', () => {
+                            const collapsed = !section.classList.contains('collapsed');
+                            section.classList.toggle('collapsed', collapsed);
+                            state.collapsed[key] = collapsed;
+                            saveState();
+                        });
+                        return section;
+                    }
+
+                    function renderBranch(branch) {
+                        const name = el('div', 'branch-name');
+                        name.append(el('span', 'branch-icon', '🌿'), branch.name);
+                        if (branch.status !== 'active') {
+                            name.append(el('span', 'lifecycle-tag', branch.status));
+                        }
+                        const header = el('div', 'branch-header');
+                        header.append(name, el('div', 'total-time'));
+
+                        const body = el('div');
+                        if (branch.states.length > 0) {
+                            const tags = el('div', 'state-tags');
+                            branch.states.forEach(({ state: tag, duration }) =>
+                                tags.append(el('span', 'state-tag', tag + ': ' + formatDuration(duration)))
+                            );
+                            body.append(tags);
+                        }
+                        if (branch.sources.length > 0) {
+                            const tags = el('div', 'state-tags');
+                            branch.sources.forEach(({ label, duration }) =>
+                                tags.append(el('span', 'source-tag', label + ': ' + formatDuration(duration)))
+                            );
+                            body.append(tags);
+                        }
+                        if (branch.files.length > 0) {
+                            const files = el('div', 'file-list');
+                            const languages = el('div', 'state-tags');
+                            branch.languages.forEach(({ language, duration }) =>
+                                languages.append(el('span', 'source-tag', language + ': ' + formatDuration(duration)))
+                            );
+                            files.append(languages);
+                            branch.directories.forEach(({ path, duration }) => files.append(row('📂 ' + path, duration)));
+                            branch.files.forEach(({ path, duration }) => files.append(row('📄 ' + path, duration)));
+                            body.append(files);
+                        }
+                        if (branch.commits.length > 0) {
+                            const commits = el('div', 'commit-list');
+                            branch.commits.forEach((commit) =>
+                                commits.append(row('🔸 ' + commit.shortHash + ' ' + commit.subject, commit.duration))
+                            );
+                            body.append(commits);
+                        }
+                        const days = el('div', 'time-entries');
+                        branch.days.forEach(({ date, duration }) => {
+                            const day = row('📅 ' + date, duration);
+                            day.dataset.date = date;
+                            day.dataset.seconds = duration;
+                            days.append(day);
+                        });
+                        body.append(days);
+
+                        const section = collapsible('branch-item', branch.key, header, body, true);
+                        section.dataset.name = branch.name;
+                        section.dataset.last = branch.lastActivity;
+                        return section;
+                    }
+
+                    function renderRepository(repository) {
+                        const header = el('div', 'repo-title');
+                        header.append(el('span', 'repo-icon', '📁'), repository.label, el('span', 'repo-total'));
+                        const body = el('div');
+                        repository.branches.forEach((branch) => body.append(renderBranch(branch)));
+
+                        const section = collapsible('repo-section', repository.key, header, body, false);
+                        section.dataset.name = repository.label;
+                        section.dataset.last = repository.lastActivity;
+                        section.dataset.current = repository.current;
+                        return section;
+                    }
+
+                    function renderIssues(issues) {
+                        const list = byId('issue-list');
+                        list.replaceChildren(
+                            ...issues.map((issue) => {
+                                const header = el('div', 'branch-header');
+                                header.append(
+                                    el('div', 'branch-name', issue.key),
+                                    el('div', 'total-time', formatDuration(issue.duration))
+                                );
+                                const branches = el('div', 'time-entries');
+                                issue.branches.forEach((branch) =>
+                                    branches.append(row('🌿 ' + branch.label, branch.duration))
+                                );
+                                const item = el('div', 'branch-item');
+                                item.append(header, branches);
+                                return item;
+                            })
+                        );
+                        byId('issues').hidden = issues.length === 0;
+                    }
+
+                    function renderSummary(summary) {
+                        let text = summary.repositories + ' repositories, ' + summary.sessions + ' sessions';
+                        if (summary.archived > 0) {
+                            text += ' · ' + summary.archived + ' archived ' +
+                                (summary.archived === 1 ? 'branch' : 'branches') + ' hidden';
+                        }
+                        byId('summary').textContent = text;
+                        byId('no-data').hidden = summary.sessions > 0;
+                        byId('has-data').hidden = summary.sessions === 0;
+                    }
+
+                    function renderStatus(status) {
+                        byId('status').textContent = status.text;
+                        const pause = byId('pause-button');
+                        pause.dataset.command = status.paused ? 'resume' : 'pause';
+                        pause.textContent = status.paused ? '▶️ Resume' : '⏸️ Pause';
+                        byId('current-only-label').title = status.currentFolder;
+                    }
+
+                    function renderReport(report) {
+                        // Report markup is built by the extension with all user text escaped
+                        byId('report').innerHTML = report ? report.html : '';
+                        byId('report').hidden = !report;
+                        byId('branches').hidden = !!report;
+                        const mode = byId('mode-button');
+                        mode.dataset.command = report ? 'showDashboard' : 'showReports';
+                        mode.textContent = report ? '📋 Branches' : '📊 Reports';
+                    }
+
+                    function sortSections(container, elements) {
+                        const byName = (a, b) => a.dataset.name.localeCompare(b.dataset.name);
+                        const compare = {
+                            total: (a, b) => b.dataset.visibleTotal - a.dataset.visibleTotal || byName(a, b),
+                            recent: (a, b) => b.dataset.last - a.dataset.last || byName(a, b),
+                            name: byName,
+                        }[state.sort] || byName;
+                        elements.sort(compare).forEach((element) => container.appendChild(element));
+                    }
+
+                    function applyFilters() {
+                        const search = state.search.trim().toLowerCase();
+                        const inRange = (date) =>
+                            (!state.from || date >= state.from) && (!state.to || date <= state.to);
+                        const repositories = Array.from(sections.values());
+
+                        let shown = 0;
+                        repositories.forEach((repository) => {
+                            const repositoryMatches = repository.dataset.name.toLowerCase().includes(search);
+                            const branches = Array.from(repository.querySelectorAll('.branch-item'));
+                            let repositoryTotal = 0;
+                            branches.forEach((branch) => {
+                                let total = 0;
+                                branch.querySelectorAll('.time-entry[data-date]').forEach((day) => {
+                                    const visible = inRange(day.dataset.date);
+                                    day.hidden = !visible;
+                                    total += visible ? Number(day.dataset.seconds) : 0;
+                                });
+                                const visible = total > 0 &&
+                                    (repositoryMatches || branch.dataset.name.toLowerCase().includes(search));
+                                branch.hidden = !visible;
+                                branch.dataset.visibleTotal = total;
+                                branch.querySelector('.total-time').textContent = formatDuration(total);
+                                repositoryTotal += visible ? total : 0;
+                            });
+                            sortSections(repository.querySelector('.section-body'), branches);
+
+                            const visible = repositoryTotal > 0 &&
+                                (!state.currentOnly || repository.dataset.current === 'true');
+                            repository.hidden = !visible;
+                            repository.dataset.visibleTotal = repositoryTotal;
+                            repository.querySelector('.repo-total').textContent = formatDuration(repositoryTotal);
+                            shown += visible ? 1 : 0;
+                        });
+                        sortSections(byId('repositories'), repositories);
+                        byId('no-matches').hidden = shown > 0 || repositories.length === 0;
+                    }
+
+                    function applyPatch(patch, full) {
+                        if (patch.status) {
+                            renderStatus(patch.status);
+                        }
+                        if (patch.summary) {
+                            renderSummary(patch.summary);
+                        }
+                        if (patch.issues) {
+                            renderIssues(patch.issues);
+                        }
+                        if (patch.report !== undefined) {
+                            renderReport(patch.report);
+                        }
+                        if (full) {
+                            sections.forEach((section) => section.remove());
+                            sections.clear();
+                        }
+                        if (patch.repositories) {
+                            patch.repositories.removed.forEach((key) => {
+                                sections.get(key)?.remove();
+                                sections.delete(key);
+                            });
+                            // Replaced in place, so the page does not jump
+                            patch.repositories.changed.forEach((repository) => {
+                                const section = renderRepository(repository);
+                                const previous = sections.get(repository.key);
+                                if (previous) {
+                                    previous.replaceWith(section);
+                                } else {
+                                    byId('repositories').append(section);
+                                }
+                                sections.set(repository.key, section);
+                            });
+                        }
+                        applyFilters();
+                    }
+
+                    window.addEventListener('message', (event) => {
+                        const message = event.data;
+                        if (message.type !== 'update') {
+                            return;
+                        }
+                        applyPatch(message.patch, message.full);
+                        if (message.full) {
+                            window.scrollTo(0, state.scrollY);
+                        }
+                    });
+
+                    document.addEventListener('click', (event) => {
+                        const target = event.target.closest('[data-command]');
+                        if (!target) {
+                            return;
+                        }
+                        vscode.postMessage(
+                            target.dataset.command === 'setReportPeriod'
+                                ? { command: 'setReportPeriod', period: target.dataset.period }
+                                : { command: target.dataset.command }
+                        );
+                    });
+
+                    ['search', 'from', 'to', 'sort', 'currentOnly'].forEach((name) => {
+                        const input = byId(name);
+                        if (input.type === 'checkbox') {
+                            input.checked = state[name];
+                        } else {
+                            input.value = state[name];
+                        }
+                        input.addEventListener(input.type === 'search' ? 'input' : 'change', () => {
+                            state[name] = input.type === 'checkbox' ? input.checked : input.value;
+                            saveState();
+                            applyFilters();
+                        });
+                    });
+
+                    let scrollFrame = 0;
+                    window.addEventListener('scroll', () => {
+                        cancelAnimationFrame(scrollFrame);
+                        scrollFrame = requestAnimationFrame(() => {
+                            state.scrollY = window.scrollY;
+                            saveState();
+                        });
+                    });
+
+                    vscode.postMessage({ command: 'ready' });
+                })();
+            </script>
+        </body>
+        </html>`;
+}
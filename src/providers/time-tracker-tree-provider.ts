@@ -0,0 +1,476 @@
+import * as vscode from "vscode";
+import { TimeEntry } from "../interfaces/time-tracker";
+import { GitBranchTimeTracker } from "../services/time-tracker-service";
+import { BranchLifecycle } from "../services/branch-lifecycle";
+import { TimeDataExporter } from "../services/time-data-exporter";
+import { checkoutBranch } from "../utils/git-utils";
+import { formatDateTime, splitEntryByDay } from "../utils/date-utils";
+import { formatDuration } from "../utils/format";
+import {
+  summarizeBranch,
+  describeBranchSummary,
+} from "../utils/branch-summary";
+
+export type TimeTreeNode =
+  | { kind: "repository"; id: string; repository: string }
+  | { kind: "branch"; id: string; repository: string; branch: string }
+  | {
+      kind: "day";
+      id: string;
+      repository: string;
+      branch: string;
+      date: string;
+    }
+  | { kind: "session"; id: string; entry: TimeEntry; date: string };
+
+/**
+ * Repository → branch → day → session tree of tracked time, with the
+ * actions of its context menu. Archived branches are left out, as on the
+ * dashboard.
+ */
+export class TimeTrackerTreeProvider
+  implements vscode.TreeDataProvider<TimeTreeNode>
+{
+  public static readonly viewType = "gitBranchTimeTracker.tree";
+
+  // Nodes by id, so reveal() finds the instances the view was given
+  private nodes = new Map<string, TimeTreeNode>();
+  // Time per day of each entry, split once per refresh
+  private daySplits = new Map<
+    TimeEntry,
+    { date: string; duration: number }[]
+  >();
+  private readonly onDidChangeTreeDataEmitter = new vscode.EventEmitter<
+    TimeTreeNode | undefined
+  >();
+  public readonly onDidChangeTreeData = this.onDidChangeTreeDataEmitter.event;
+
+  constructor(
+    private readonly tracker: GitBranchTimeTracker,
+    private readonly lifecycle: BranchLifecycle,
+    private readonly exporter: TimeDataExporter
+  ) {}
+
+  public refresh() {
+    this.nodes.clear();
+    this.daySplits.clear();
+    this.onDidChangeTreeDataEmitter.fire(undefined);
+  }
+
+  private node<T extends TimeTreeNode>(node: T): T {
+    const existing = this.nodes.get(node.id) as T | undefined;
+    if (existing) {
+      return existing;
+    }
+    this.nodes.set(node.id, node);
+    return node;
+  }
+
+  private getEntries(): TimeEntry[] {
+    return this.tracker
+      .getTimeData()
+      .filter(
+        (entry) => !this.lifecycle.isArchived(entry.repository, entry.branch)
+      );
+  }
+
+  private splitByDay(entry: TimeEntry): { date: string; duration: number }[] {
+    let pieces = this.daySplits.get(entry);
+    if (!pieces) {
+      pieces = splitEntryByDay(entry, this.tracker.getConfig());
+      this.daySplits.set(entry, pieces);
+    }
+    return pieces;
+  }
+
+  /** Entries under a node; sessions crossing midnight count on each day. */
+  private getNodeEntries(node: TimeTreeNode): TimeEntry[] {
+    if (node.kind === "session") {
+      return [node.entry];
+    }
+    return this.getEntries().filter(
+      (entry) =>
+        entry.repository === node.repository &&
+        (node.kind === "repository" || entry.branch === node.branch) &&
+        (node.kind !== "day" ||
+          this.splitByDay(entry).some(({ date }) => date === node.date))
+    );
+  }
+
+  /** Seconds under a node, counting only the node's day for days. */
+  private getDuration(node: TimeTreeNode): number {
+    if (node.kind === "session") {
+      return node.entry.duration;
+    }
+    return this.getNodeEntries(node).reduce(
+      (sum, entry) =>
+        sum +
+        this.splitByDay(entry)
+          .filter(({ date }) => node.kind !== "day" || date === node.date)
+          .reduce((total, { duration }) => total + duration, 0),
+      0
+    );
+  }
+
+  public getChildren(node?: TimeTreeNode): TimeTreeNode[] {
+    const entries = this.getEntries();
+
+    if (!node) {
+      const labels = this.tracker.getRepositoryLabels();
+      return Array.from(new Set(entries.map((entry) => entry.repository)))
+        .sort((a, b) => (labels[a] || a).localeCompare(labels[b] || b))
+        .map((repository) =>
+          this.node({ kind: "repository", id: repository, repository })
+        );
+    }
+
+    const inNode = this.getNodeEntries(node);
+    switch (node.kind) {
+      case "repository": {
+        // Most recently worked on first
+        const lastActivity = new Map<string, number>();
+        inNode.forEach((entry) =>
+          lastActivity.set(
+            entry.branch,
+            Math.max(lastActivity.get(entry.branch) || 0, entry.endTime)
+          )
+        );
+        return Array.from(lastActivity.entries())
+          .sort(([, a], [, b]) => b - a)
+          .map(([branch]) =>
+            this.node({
+              kind: "branch",
+              id: `${node.repository}|${branch}`,
+              repository: node.repository,
+              branch,
+            })
+          );
+      }
+      case "branch": {
+        const dates = new Set<string>();
+        inNode.forEach((entry) =>
+          this.splitByDay(entry).forEach(({ date }) => dates.add(date))
+        );
+        return Array.from(dates)
+          .sort((a, b) => b.localeCompare(a))
+          .map((date) =>
+            this.node({
+              kind: "day",
+              id: `${node.id}|${date}`,
+              repository: node.repository,
+              branch: node.branch,
+              date,
+            })
+          );
+      }
+      case "day":
+        return inNode
+          .sort((a, b) => a.startTime - b.startTime)
+          .map((entry) =>
+            this.node({
+              kind: "session",
+              id: `${node.id}|${entry.startTime}`,
+              entry,
+              date: node.date,
+            })
+          );
+      default:
+        return [];
+    }
+  }
+
+  public getParent(node: TimeTreeNode): TimeTreeNode | undefined {
+    switch (node.kind) {
+      case "branch":
+        return this.node({
+          kind: "repository",
+          id: node.repository,
+          repository: node.repository,
+        });
+      case "day":
+        return this.node({
+          kind: "branch",
+          id: `${node.repository}|${node.branch}`,
+          repository: node.repository,
+          branch: node.branch,
+        });
+      case "session": {
+        const { repository, branch } = node.entry;
+        return this.node({
+          kind: "day",
+          id: `${repository}|${branch}|${node.date}`,
+          repository,
+          branch,
+          date: node.date,
+        });
+      }
+      default:
+        return undefined;
+    }
+  }
+
+  public getTreeItem(node: TimeTreeNode): vscode.TreeItem {
+    const duration = formatDuration(this.getDuration(node));
+    const collapsed = vscode.TreeItemCollapsibleState.Collapsed;
+    const active = this.tracker.getActiveSession();
+
+    switch (node.kind) {
+      case "repository": {
+        const item = new vscode.TreeItem(
+          this.tracker.getRepositoryLabels()[node.repository] ||
+            node.repository,
+          collapsed
+        );
+        item.description = duration;
+        item.tooltip = node.repository;
+        item.iconPath = new vscode.ThemeIcon("repo");
+        item.contextValue = "repository";
+        item.id = node.id;
+        return item;
+      }
+      case "branch": {
+        const status = this.lifecycle.getStatus(node.repository, node.branch);
+        const current =
+          active?.repository === node.repository &&
+          active.branch === node.branch;
+        const item = new vscode.TreeItem(node.branch, collapsed);
+        item.description = `${duration}${
+          status === "active" ? "" : ` · ${status}`
+        }`;
+        item.iconPath = new vscode.ThemeIcon(current ? "pulse" : "git-branch");
+        item.tooltip = this.describe(node);
+        // Only buckets of a Git branch can be checked out
+        item.contextValue = this.isGitBranch(node) ? "branch" : "bucket";
+        item.id = node.id;
+        return item;
+      }
+      case "day": {
+        const item = new vscode.TreeItem(node.date, collapsed);
+        item.description = duration;
+        item.iconPath = new vscode.ThemeIcon("calendar");
+        item.contextValue = "day";
+        item.id = node.id;
+        return item;
+      }
+      case "session": {
+        const { entry } = node;
+        const { timeZone } = this.tracker.getConfig();
+        const item = new vscode.TreeItem(
+          `${formatDateTime(entry.startTime, timeZone).slice(
+            11
+          )} – ${formatDateTime(entry.endTime, timeZone).slice(11)}`,
+          vscode.TreeItemCollapsibleState.None
+        );
+        item.description = [
+          duration,
+          ...(entry.gitState ? [entry.gitState] : []),
+          ...(entry.manual ? ["manual"] : []),
+          ...(entry.idle ? ["idle"] : []),
+        ].join(" · ");
+        item.iconPath = new vscode.ThemeIcon(entry.manual ? "edit" : "watch");
+        item.contextValue = "session";
+        item.id = node.id;
+        return item;
+      }
+    }
+  }
+
+  /** One line per branch, for tooltips and the clipboard. */
+  private describe(node: TimeTreeNode): string {
+    const labels = this.tracker.getRepositoryLabels();
+    const days = this.tracker.getConfig();
+    switch (node.kind) {
+      case "repository":
+        return [
+          `${labels[node.repository] || node.repository}: ${formatDuration(
+            this.getDuration(node)
+          )}`,
+          ...this.getChildren(node).map((child) => this.describe(child)),
+        ].join("\n");
+      case "branch": {
+        const summary = summarizeBranch(
+          this.getEntries(),
+          node.repository,
+          node.branch,
+          days
+        );
+        return `${labels[node.repository] || node.repository}/${node.branch}: ${
+          summary ? describeBranchSummary(summary) : "no sessions"
+        }`;
+      }
+      case "day":
+        return `${node.date} · ${labels[node.repository] || node.repository}/${
+          node.branch
+        }: ${formatDuration(this.getDuration(node))}`;
+      case "session": {
+        const { entry } = node;
+        return `${labels[entry.repository] || entry.repository}/${
+          entry.branch
+        }: ${formatDateTime(entry.startTime, days.timeZone)} – ${formatDateTime(
+          entry.endTime,
+          days.timeZone
+        )} (${formatDuration(entry.duration)})`;
+      }
+    }
+  }
+
+  /** The branch node of the active session, if it is in the tree. */
+  public getCurrentBranchNode(): TimeTreeNode | undefined {
+    const active = this.tracker.getActiveSession();
+    if (
+      !active ||
+      !this.getEntries().some(
+        (entry) =>
+          entry.repository === active.repository &&
+          entry.branch === active.branch
+      )
+    ) {
+      return undefined;
+    }
+    return this.node({
+      kind: "branch",
+      id: `${active.repository}|${active.branch}`,
+      repository: active.repository,
+      branch: active.branch,
+    });
+  }
+
+  /**
+   * Whether a branch node is named after a Git branch, rather than a
+   * detached HEAD, an operation without a branch or a label given with
+   * rename that doesn't exist in Git.
+   */
+  private isGitBranch(node: TimeTreeNode): boolean {
+    return (
+      node.kind === "branch" &&
+      this.getNodeEntries(node).some((entry) => !entry.gitState) &&
+      this.lifecycle.getStatus(node.repository, node.branch) !== "deleted"
+    );
+  }
+
+  /** Context menu: checks the branch out in its workspace repository. */
+  public async checkout(node: TimeTreeNode) {
+    if (node.kind !== "branch" || !this.isGitBranch(node)) {
+      return;
+    }
+    const worktrees = (await this.tracker.getWorkspaceRepositories()).filter(
+      ({ id }) => id === node.repository
+    );
+    if (worktrees.length === 0) {
+      vscode.window.showInformationMessage(
+        `${
+          this.tracker.getRepositoryLabels()[node.repository] || node.repository
+        } is not open in this window.`
+      );
+      return;
+    }
+    const repository =
+      worktrees.length === 1
+        ? worktrees[0]
+        : (
+            await vscode.window.showQuickPick(
+              worktrees.map((worktree) => ({
+                label: worktree.worktree || worktree.name,
+                description: worktree.root,
+                worktree,
+              })),
+              { placeHolder: `Worktree to check out ${node.branch} in` }
+            )
+          )?.worktree;
+    if (!repository) {
+      return;
+    }
+
+    try {
+      await checkoutBranch(repository.root, node.branch);
+      vscode.window.showInformationMessage(`Checked out ${node.branch}.`);
+    } catch (error) {
+      vscode.window.showErrorMessage(
+        `Could not check out ${node.branch}: ${
+          error instanceof Error ? error.message : String(error)
+        }`
+      );
+    }
+  }
+
+  /**
+   * Context menu: books a branch's time under another name, without
+   * touching the Git branch itself.
+   */
+  public async rename(node: TimeTreeNode) {
+    if (node.kind !== "branch") {
+      return;
+    }
+    const name = await vscode.window.showInputBox({
+      prompt: `Book the time of ${node.branch} under`,
+      value: node.branch,
+      validateInput: (value) =>
+        value.trim() ? undefined : "Enter a branch name or label",
+    });
+    if (!name || name.trim() === node.branch) {
+      return;
+    }
+    if (
+      !(await this.tracker.renameBranch(
+        node.repository,
+        node.branch,
+        name.trim()
+      ))
+    ) {
+      vscode.window.showErrorMessage(
+        "Failed to rename the branch. See the log for details."
+      );
+    }
+  }
+
+  /** Context menu: deletes every session under a node. */
+  public async delete(node: TimeTreeNode) {
+    // Sessions still in the batch would otherwise be left behind
+    await this.tracker.flushPendingEntries();
+    const entries = this.getNodeEntries(node);
+    if (entries.length === 0) {
+      return;
+    }
+
+    const selection = await vscode.window.showWarningMessage(
+      entries.length === 1
+        ? `Delete the session ${this.describe(node)}?`
+        : `Delete ${entries.length} sessions (${formatDuration(
+            entries.reduce((sum, entry) => sum + entry.duration, 0)
+          )})? Sessions crossing into other days are deleted whole.`,
+      { modal: true },
+      "Delete"
+    );
+    if (selection !== "Delete") {
+      return;
+    }
+    if (!(await this.tracker.replaceEntries(entries, []))) {
+      vscode.window.showErrorMessage(
+        "Failed to delete the sessions. See the log for details."
+      );
+    }
+  }
+
+  /** Context menu: exports the sessions under a node. */
+  public async export(node: TimeTreeNode) {
+    const entries = this.getNodeEntries(node).sort(
+      (a, b) => a.startTime - b.startTime
+    );
+    if (entries.length > 0) {
+      await this.exporter.save(
+        entries,
+        node.kind === "day" ? { from: node.date, to: node.date } : undefined
+      );
+    }
+  }
+
+  /** Context menu: copies a plain-text summary of a node. */
+  public async copySummary(node: TimeTreeNode) {
+    await vscode.env.clipboard.writeText(this.describe(node));
+    vscode.window.setStatusBarMessage("Time summary copied.", 3000);
+  }
+
+  public dispose() {
+    this.onDidChangeTreeDataEmitter.dispose();
+  }
+}
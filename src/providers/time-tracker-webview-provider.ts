@@ -1,18 +1,98 @@
 import * as vscode from "vscode";
-import { TimeEntry } from "../interfaces/time-tracker";
+import {
+  TimeEntry,
+  CommitTime,
+  Report,
+  ReportPeriod,
+  ReportRange,
+} from "../interfaces/time-tracker";
+import {
+  DashboardPatch,
+  DashboardRepository,
+  ExtensionMessage,
+  WebviewMessage,
+} from "../interfaces/dashboard";
 import { GitBranchTimeTracker } from "../services/time-tracker-service";
+import { CommitTimeService } from "../services/commit-time-service";
+import { BranchLifecycle } from "../services/branch-lifecycle";
+import { splitEntryByDay, getEntryDate, isDateKey } from "../utils/date-utils";
+import {
+  MAX_REPORT_DAYS,
+  buildReport,
+  countDays,
+  getReportRange,
+} from "../utils/report";
+import { renderReport } from "../utils/report-html";
+import {
+  ACTIVITY_SOURCES,
+  ACTIVITY_SOURCE_LABELS,
+  sumSources,
+} from "../utils/activity-sources";
+import { summarizeFiles } from "../utils/file-breakdown";
 import { debounce } from "../utils/debounce";
+import { getDashboardHtml } from "./dashboard-html";
+
+type CommitTimes = { [repo: string]: { [branch: string]: CommitTime[] } };
+
+// Commits are only looked up for the most recently worked on branches
+const COMMIT_BRANCHES_PER_REPOSITORY = 5;
+const COMMITS_PER_BRANCH = 5;
+// Per-file breakdown shown for each branch
+const TOP_LANGUAGES = 5;
+const TOP_DIRECTORIES = 3;
+const TOP_FILES = 5;
+
+// Commands the dashboard buttons run as they are
+const FORWARDED_COMMANDS: { [command: string]: string } = {
+  reset: "gitBranchTimeTracker.resetData",
+  showIssues: "gitBranchTimeTracker.showIssues",
+  export: "gitBranchTimeTracker.export",
+  import: "gitBranchTimeTracker.import",
+  pause: "gitBranchTimeTracker.pause",
+  resume: "gitBranchTimeTracker.resume",
+  addEntry: "gitBranchTimeTracker.addEntry",
+  editEntries: "gitBranchTimeTracker.editEntries",
+};
 
 export class TimeTrackerWebviewProvider implements vscode.WebviewViewProvider {
   public static readonly viewType = "gitBranchTimeTracker";
   private webviewView?: vscode.WebviewView;
   private lastUpdateTime: number = 0;
   private readonly UPDATE_INTERVAL = 1000; // Minimum time between updates in ms
+  // Reports mode replaces the branch list with charts for a period
+  private showingReports = false;
+  private reportPeriod: ReportPeriod = "thisWeek";
+  private customRange: ReportRange | null = null;
+  // Workspace folder of the active editor, for "current repository only"
+  private currentFolder?: vscode.WorkspaceFolder;
+  // JSON of each dashboard part and repository as last sent to the page,
+  // so updates only carry what changed; cleared when the page reloads
+  private sentParts = new Map<string, string>();
+  private sentRepositories = new Map<string, string>();
 
   constructor(
     private readonly context: vscode.ExtensionContext,
-    private readonly tracker: GitBranchTimeTracker
-  ) {}
+    private readonly tracker: GitBranchTimeTracker,
+    private readonly commitTimes: CommitTimeService,
+    private readonly lifecycle: BranchLifecycle
+  ) {
+    context.subscriptions.push(
+      vscode.window.onDidChangeActiveTextEditor(() => {
+        if (this.getCurrentFolder() !== this.currentFolder) {
+          this.lastUpdateTime = 0;
+          this.updateWebview();
+        }
+      })
+    );
+  }
+
+  private getCurrentFolder(): vscode.WorkspaceFolder | undefined {
+    const document = vscode.window.activeTextEditor?.document;
+    return (
+      (document && vscode.workspace.getWorkspaceFolder(document.uri)) ||
+      vscode.workspace.workspaceFolders?.[0]
+    );
+  }
 
   public resolveWebviewView(
     webviewView: vscode.WebviewView,
@@ -25,23 +105,44 @@ export class TimeTrackerWebviewProvider implements vscode.WebviewViewProvider {
       enableScripts: true,
       localResourceRoots: [this.context.extensionUri],
     };
+    // Set once; the page asks for its data with a "ready" message
+    webviewView.webview.html = getDashboardHtml(webviewView.webview);
 
-    this.updateWebview();
+    webviewView.onDidDispose(() => {
+      this.webviewView = undefined;
+    });
 
     // Handle messages from webview
-    webviewView.webview.onDidReceiveMessage((message) => {
+    webviewView.webview.onDidReceiveMessage((message: WebviewMessage) => {
       switch (message.command) {
+        case "ready":
+          // A new page, possibly after being hidden: send everything
+          this.sentParts.clear();
+          this.sentRepositories.clear();
+          this.lastUpdateTime = 0;
+          this.updateWebview();
+          break;
         case "refresh":
           this.updateWebview();
           break;
-        case "reset":
-          vscode.commands.executeCommand("gitBranchTimeTracker.resetData");
+        case "showReports":
+          this.showReports(true);
           break;
+        case "showDashboard":
+          this.showReports(false);
+          break;
+        case "setReportPeriod":
+          this.setReportPeriod(message.period);
+          break;
+        default:
+          if (FORWARDED_COMMANDS[message.command]) {
+            vscode.commands.executeCommand(FORWARDED_COMMANDS[message.command]);
+          }
       }
     });
   }
 
-  private updateWebview = debounce(() => {
+  private updateWebview = debounce(async () => {
     if (!this.webviewView) {
       return;
     }
@@ -50,281 +151,301 @@ export class TimeTrackerWebviewProvider implements vscode.WebviewViewProvider {
     if (now - this.lastUpdateTime < this.UPDATE_INTERVAL) {
       return;
     }
+    this.lastUpdateTime = now;
 
-    const repositories = this.tracker.getAllRepositories();
-    const timeData = this.tracker.getTimeData();
-    const currentStatus = this.tracker.getCurrentStatus();
+    // Archived branches stay out of the dashboard
+    const timeData = this.tracker
+      .getTimeData()
+      .filter(
+        (entry) => !this.lifecycle.isArchived(entry.repository, entry.branch)
+      );
+    const report = this.showingReports ? this.buildReport() : null;
+    const commitTimes = report ? {} : await this.loadCommitTimes();
+    this.currentFolder = this.getCurrentFolder();
+    const currentRepository = this.currentFolder
+      ? (await this.tracker.getRepositoryState(this.currentFolder.uri.fsPath))
+          ?.repository
+      : null;
+    if (!this.webviewView) {
+      return;
+    }
 
-    this.webviewView.webview.html = this.getWebviewContent(
-      repositories,
-      timeData,
-      currentStatus
+    const full = this.sentParts.size === 0;
+    const patch = this.diff(
+      {
+        status: {
+          text: this.tracker.getCurrentStatus(),
+          paused: this.tracker.getPauseState() !== null,
+          currentFolder: this.currentFolder?.name || "",
+        },
+        summary: {
+          repositories: this.tracker.getAllRepositories().length,
+          sessions: timeData.length,
+          archived: this.lifecycle.getArchivedCount(),
+        },
+        issues: this.getIssues(),
+        report: report && {
+          period: this.reportPeriod,
+          html: renderReport(
+            report,
+            this.reportPeriod,
+            this.tracker.getRepositoryLabels()
+          ),
+        },
+      },
+      // The branch list is left as it is while reports are shown
+      report
+        ? null
+        : this.getRepositories(
+            timeData,
+            commitTimes,
+            currentRepository?.id || null
+          )
     );
-
-    this.lastUpdateTime = now;
+    if (full || Object.keys(patch).length > 0) {
+      const message: ExtensionMessage = { type: "update", full, patch };
+      this.webviewView.webview.postMessage(message);
+    }
   }, 300);
 
-  private getWebviewContent(
-    repositories: string[],
-    timeData: TimeEntry[],
-    currentStatus: string
-  ): string {
-    const formatDuration = (seconds: number): string => {
-      const hours = Math.floor(seconds / 3600);
-      const minutes = Math.floor((seconds % 3600) / 60);
-      const secs = seconds % 60;
+  /** The parts of `parts` and repositories that differ from the last sent. */
+  private diff(
+    parts: Omit<DashboardPatch, "repositories">,
+    repositories: DashboardRepository[] | null
+  ): DashboardPatch {
+    const patch: DashboardPatch = {};
+    (Object.keys(parts) as (keyof typeof parts)[]).forEach((part) => {
+      const json = JSON.stringify(parts[part]);
+      if (this.sentParts.get(part) !== json) {
+        this.sentParts.set(part, json);
+        Object.assign(patch, { [part]: parts[part] });
+      }
+    });
 
-      if (hours > 0) {
-        return `${hours}h ${minutes}m`;
-      } else if (minutes > 0) {
-        return `${minutes}m ${secs}s`;
-      } else {
-        return `${secs}s`;
+    if (repositories) {
+      const changed = repositories.filter((repository) => {
+        const json = JSON.stringify(repository);
+        if (this.sentRepositories.get(repository.key) === json) {
+          return false;
+        }
+        this.sentRepositories.set(repository.key, json);
+        return true;
+      });
+      const keys = new Set(repositories.map((repository) => repository.key));
+      const removed = Array.from(this.sentRepositories.keys()).filter(
+        (key) => !keys.has(key)
+      );
+      removed.forEach((key) => this.sentRepositories.delete(key));
+      if (changed.length > 0 || removed.length > 0) {
+        patch.repositories = { changed, removed };
       }
-    };
+    }
+    return patch;
+  }
 
-    const groupedData: {
-      [repo: string]: { [branch: string]: { [date: string]: number } };
-    } = {};
+  /** Switches between the branch list and reports. */
+  public showReports(show: boolean) {
+    this.showingReports = show;
+    this.lastUpdateTime = 0;
+    this.updateWebview();
+  }
 
-    timeData.forEach((entry) => {
-      if (!groupedData[entry.repository]) {
-        groupedData[entry.repository] = {};
-      }
-      if (!groupedData[entry.repository][entry.branch]) {
-        groupedData[entry.repository][entry.branch] = {};
+  private async setReportPeriod(period: ReportPeriod) {
+    if (period === "custom") {
+      const range = await this.pickCustomRange();
+      if (!range) {
+        return;
       }
-      if (!groupedData[entry.repository][entry.branch][entry.date]) {
-        groupedData[entry.repository][entry.branch][entry.date] = 0;
-      }
-      groupedData[entry.repository][entry.branch][entry.date] += entry.duration;
+      this.customRange = range;
+    }
+    this.reportPeriod = period;
+    this.showReports(true);
+  }
+
+  private async pickCustomRange(): Promise<ReportRange | undefined> {
+    const today = getEntryDate(Date.now(), this.tracker.getConfig());
+    const initial =
+      this.customRange ||
+      (this.reportPeriod === "custom"
+        ? getReportRange("thisMonth", today)
+        : getReportRange(this.reportPeriod, today));
+    const validateInput = (value: string) =>
+      isDateKey(value) ? undefined : "Enter a date as YYYY-MM-DD";
+
+    const from = await vscode.window.showInputBox({
+      prompt: "First day of the report (inclusive)",
+      placeHolder: "YYYY-MM-DD",
+      value: initial.from,
+      validateInput,
+    });
+    if (!from) {
+      return undefined;
+    }
+    const to = await vscode.window.showInputBox({
+      prompt: "Last day of the report (inclusive)",
+      placeHolder: "YYYY-MM-DD",
+      value: initial.to < from ? from : initial.to,
+      validateInput: (value) =>
+        validateInput(value) ||
+        (value < from
+          ? "The last day must not be before the first"
+          : countDays({ from, to: value }) > MAX_REPORT_DAYS
+          ? `A report can span at most ${MAX_REPORT_DAYS} days`
+          : undefined),
     });
+    return to ? { from, to } : undefined;
+  }
 
-    return `
-        <!DOCTYPE html>
-        <html>
-        <head>
-            <meta charset="UTF-8">
-            <meta name="viewport" content="width=device-width, initial-scale=1.0">
-            <style>
-                body {
-                    font-family: var(--vscode-font-family);
-                    font-size: var(--vscode-font-size);
-                    padding: 10px;
-                    color: var(--vscode-foreground);
-                    background-color: var(--vscode-editor-background);
-                    margin: 0;
-                }
-                .status-bar {
-                    background-color: var(--vscode-statusBar-background);
-                    color: var(--vscode-statusBar-foreground);
-                    padding: 8px;
-                    margin: -10px -10px 15px -10px;
-                    font-size: 12px;
-                    border-bottom: 1px solid var(--vscode-panel-border);
-                }
-                .controls {
-                    margin-bottom: 15px;
-                    text-align: center;
-                }
-                .button {
-                    background-color: var(--vscode-button-background);
-                    color: var(--vscode-button-foreground);
-                    border: none;
-                    padding: 6px 12px;
-                    margin: 0 5px;
-                    border-radius: 3px;
-                    cursor: pointer;
-                    font-size: 12px;
-                }
-                .button:hover {
-                    background-color: var(--vscode-button-hoverBackground);
-                }
-                .button.secondary {
-                    background-color: var(--vscode-button-secondaryBackground);
-                    color: var(--vscode-button-secondaryForeground);
-                }
-                .button.secondary:hover {
-                    background-color: var(--vscode-button-secondaryHoverBackground);
-                }
-                .repo-section {
-                    margin-bottom: 20px;
-                    border: 1px solid var(--vscode-panel-border);
-                    border-radius: 4px;
-                    padding: 10px;
-                    background-color: var(--vscode-editor-background);
-                }
-                .repo-title {
-                    font-weight: bold;
-                    font-size: 14px;
-                    margin-bottom: 10px;
-                    color: var(--vscode-textLink-foreground);
-                    display: flex;
-                    align-items: center;
-                }
-                .repo-icon {
-                    margin-right: 8px;
-                }
-                .branch-item {
-                    margin-left: 15px;
-                    margin-bottom: 8px;
-                    padding: 8px;
-                    background-color: var(--vscode-list-hoverBackground);
-                    border-radius: 3px;
-                    border-left: 3px solid var(--vscode-gitDecoration-modifiedResourceForeground);
-                }
-                .branch-header {
-                    display: flex;
-                    justify-content: space-between;
-                    align-items: center;
-                    margin-bottom: 5px;
-                }
-                .branch-name {
-                    font-weight: 500;
-                    color: var(--vscode-gitDecoration-modifiedResourceForeground);
-                    display: flex;
-                    align-items: center;
-                }
-                .branch-icon {
-                    margin-right: 6px;
-                }
-                .total-time {
-                    font-weight: bold;
-                    color: var(--vscode-terminal-ansiGreen);
-                    font-size: 12px;
-                }
-                .time-entries {
-                    margin-left: 10px;
-                }
-                .time-entry {
-                    font-size: 11px;
-                    color: var(--vscode-descriptionForeground);
-                    margin-bottom: 2px;
-                    display: flex;
-                    justify-content: space-between;
-                }
-                .no-data {
-                    text-align: center;
-                    color: var(--vscode-descriptionForeground);
-                    font-style: italic;
-                    margin: 30px 0;
-                    padding: 20px;
-                    background-color: var(--vscode-inputValidation-infoBackground);
-                    border-radius: 4px;
-                }
-                .summary {
-                    background-color: var(--vscode-notifications-background);
-                    border: 1px solid var(--vscode-notifications-border);
-                    padding: 10px;
-                    border-radius: 4px;
-                    margin-bottom: 15px;
-                    font-size: 12px;
-                }
-            </style>
-        </head>
-        <body>
-            <div class="status-bar">
-                🕒 Status: ${currentStatus}
-            </div>
+  /** Report for the selected period, over all tracked time. */
+  private buildReport(): Report {
+    const config = this.tracker.getConfig();
+    const range =
+      this.reportPeriod === "custom" && this.customRange
+        ? this.customRange
+        : getReportRange(
+            this.reportPeriod === "custom" ? "thisWeek" : this.reportPeriod,
+            getEntryDate(Date.now(), config)
+          );
+    return buildReport(this.tracker.getTimeData(), range, config);
+  }
 
-            <div class="controls">
-                <button class="button" onclick="refresh()">🔄 Refresh</button>
-                <button class="button secondary" onclick="resetData()">🗑️ Reset Data</button>
-            </div>
+  /** Time per commit on recent branches of repositories open here. */
+  private async loadCommitTimes(): Promise<CommitTimes> {
+    const result: CommitTimes = {};
+    try {
+      const repositories = await this.tracker.getWorkspaceRepositories();
+      for (const repository of repositories) {
+        const id = repository.id;
+        // Worktrees share their commits, one of them will do
+        if (result[id]) {
+          continue;
+        }
+        result[id] = {};
+        const branches = this.tracker
+          .getBranches(id)
+          .filter((branch) => !this.lifecycle.isArchived(id, branch))
+          .slice(0, COMMIT_BRANCHES_PER_REPOSITORY);
+        for (const branch of branches) {
+          const commits = await this.commitTimes.getCommitTimes(
+            repository,
+            branch,
+            COMMITS_PER_BRANCH
+          );
+          result[id][branch] = commits.filter(({ duration }) => duration > 0);
+        }
+      }
+    } catch (error) {
+      console.error("Failed to load commit times:", error);
+    }
+    return result;
+  }
 
-            ${
-              Object.keys(groupedData).length === 0
-                ? `
-                <div class="no-data">
-                    <div style="font-size: 24px; margin-bottom: 10px;">📊</div>
-                    <div><strong>No time data available yet</strong></div>
-                    <div style="margin-top: 8px;">Start editing files in a Git repository to begin tracking!</div>
-                </div>
-            `
-                : `
-                <div class="summary">
-                    <strong>📈 Summary:</strong> ${
-                      repositories.length
-                    } repositories, ${timeData.length} sessions
-                </div>
-                ${Object.entries(groupedData)
-                  .map(
-                    ([repo, branches]) => `
-                    <div class="repo-section">
-                        <div class="repo-title">
-                            <span class="repo-icon">📁</span>
-                            ${repo}
-                        </div>
-                        ${Object.entries(branches)
-                          .map(([branch, dates]) => {
-                            const totalTime = Object.values(dates).reduce(
-                              (sum, time) => sum + time,
-                              0
-                            );
-                            const sortedDates = Object.entries(dates).sort(
-                              ([a], [b]) => b.localeCompare(a)
-                            );
-                            return `
-                                <div class="branch-item">
-                                    <div class="branch-header">
-                                        <div class="branch-name">
-                                            <span class="branch-icon">🌿</span>
-                                            ${branch}
-                                        </div>
-                                        <div class="total-time">${formatDuration(
-                                          totalTime
-                                        )}</div>
-                                    </div>
-                                    <div class="time-entries">
-                                        ${sortedDates
-                                          .map(
-                                            ([date, time]) => `
-                                            <div class="time-entry">
-                                                <span>📅 ${date}</span>
-                                                <span>${formatDuration(
-                                                  time
-                                                )}</span>
-                                            </div>
-                                        `
-                                          )
-                                          .join("")}
-                                    </div>
-                                </div>
-                            `;
-                          })
-                          .join("")}
-                    </div>
-                `
-                  )
-                  .join("")}
-            `
-            }
+  private getIssues() {
+    const labels = this.tracker.getRepositoryLabels();
+    return this.tracker.getIssueSummaries().map((issue) => ({
+      key: issue.key,
+      duration: issue.duration,
+      branches: issue.branches.map((branch) => ({
+        label: `${labels[branch.repository] || branch.repository}/${
+          branch.branch
+        }`,
+        duration: branch.duration,
+      })),
+    }));
+  }
 
-            <script>
-                const vscode = acquireVsCodeApi();
-                let lastRefreshTime = 0;
-                const MIN_REFRESH_INTERVAL = 1000; // Minimum time between refreshes in ms
+  /** Repository sections of the branch list, in the order first tracked. */
+  private getRepositories(
+    timeData: TimeEntry[],
+    commitTimes: CommitTimes,
+    currentRepository: string | null
+  ): DashboardRepository[] {
+    const repositoryLabels = this.tracker.getRepositoryLabels();
+    const dayOptions = this.tracker.getConfig();
+    const { fileExclusions } = dayOptions;
+    const grouped = new Map<string, Map<string, TimeEntry[]>>();
+    timeData.forEach((entry) => {
+      if (!grouped.has(entry.repository)) {
+        grouped.set(entry.repository, new Map());
+      }
+      const branches = grouped.get(entry.repository)!;
+      const entries = branches.get(entry.branch);
+      if (entries) {
+        entries.push(entry);
+      } else {
+        branches.set(entry.branch, [entry]);
+      }
+    });
 
-                function refresh() {
-                    const now = Date.now();
-                    if (now - lastRefreshTime < MIN_REFRESH_INTERVAL) {
-                        return;
-                    }
-                    lastRefreshTime = now;
-                    vscode.postMessage({ command: 'refresh' });
-                }
+    return Array.from(grouped.entries()).map(([repo, branches]) => {
+      const branchSections = Array.from(branches.entries()).map(
+        ([branch, entries]) => {
+          const dates: { [date: string]: number } = {};
+          // Time spent rebasing, merging, bisecting etc., time entered by
+          // hand and idle time kept on return
+          const states: { [state: string]: number } = {};
+          const sources = sumSources(entries.map((entry) => entry.sources));
+          const breakdown = summarizeFiles(entries, fileExclusions);
+          entries.forEach((entry) => {
+            splitEntryByDay(entry, dayOptions).forEach(({ date, duration }) => {
+              dates[date] = (dates[date] || 0) + duration;
+            });
+            [
+              ...(entry.gitState ? [entry.gitState] : []),
+              ...(entry.manual ? ["manual"] : []),
+              ...(entry.idle ? ["idle"] : []),
+            ].forEach((tag) => {
+              states[tag] = (states[tag] || 0) + entry.duration;
+            });
+          });
 
-                function resetData() {
-                    if (confirm('Are you sure you want to reset all time tracking data? This cannot be undone.')) {
-                        vscode.postMessage({ command: 'reset' });
-                    }
-                }
+          return {
+            key: `${repo}|${branch}`,
+            name: branch,
+            status: this.lifecycle.getStatus(repo, branch),
+            lastActivity: entries.reduce(
+              (last, entry) => Math.max(last, entry.endTime),
+              0
+            ),
+            days: Object.entries(dates)
+              .sort(([a], [b]) => b.localeCompare(a))
+              .map(([date, duration]) => ({ date, duration })),
+            states: Object.entries(states).map(([state, duration]) => ({
+              state,
+              duration,
+            })),
+            sources: ACTIVITY_SOURCES.filter((source) => sources[source]).map(
+              (source) => ({
+                label: ACTIVITY_SOURCE_LABELS[source],
+                duration: sources[source]!,
+              })
+            ),
+            languages: breakdown.languages.slice(0, TOP_LANGUAGES),
+            directories: breakdown.directories.slice(0, TOP_DIRECTORIES),
+            files: breakdown.files
+              .slice(0, TOP_FILES)
+              .map(({ path, duration }) => ({ path, duration })),
+            commits: (commitTimes[repo]?.[branch] || []).map(
+              ({ commit, duration }) => ({
+                shortHash: commit.shortHash,
+                subject: commit.subject,
+                duration,
+              })
+            ),
+          };
+        }
+      );
 
-                // Auto refresh every 30 seconds
-                setInterval(refresh, 30000);
-            </script>
-        </body>
-        </html>`;
+      return {
+        key: repo,
+        label: repositoryLabels[repo] || repo,
+        current: repo === currentRepository,
+        lastActivity: Math.max(
+          ...branchSections.map((branch) => branch.lastActivity)
+        ),
+        branches: branchSections,
+      };
+    });
   }
 
   public refresh() {
@@ -0,0 +1,410 @@
+import * as vscode from "vscode";
+import * as path from "path";
+import { ActivitySource } from "../interfaces/time-tracker";
+import { TrackerConfig } from "../interfaces/config";
+import { debounce } from "../utils/debounce";
+
+// Documents the user works on; output channels, git views and the like
+// change on their own
+const CODE_SCHEMES = new Set(["file", "untitled"]);
+const NOTEBOOK_CELL_SCHEME = "vscode-notebook-cell";
+
+// Debug adapter requests that only come from the user driving the session
+const DEBUG_REQUESTS = new Set([
+  "continue",
+  "next",
+  "stepIn",
+  "stepOut",
+  "stepBack",
+  "reverseContinue",
+  "pause",
+  "restart",
+  "restartFrame",
+  "goto",
+  "setVariable",
+  "setExpression",
+]);
+// Watch expressions are evaluated on every stop, these are typed or hovered
+const EVALUATE_CONTEXTS = new Set(["repl", "hover"]);
+
+// The fields of Debug Adapter Protocol messages looked at here
+interface DebugMessage {
+  type?: unknown;
+  command?: unknown;
+  event?: unknown;
+  arguments?: { context?: unknown };
+}
+
+const asDebugMessage = (message: unknown): DebugMessage =>
+  typeof message === "object" && message !== null ? message : {};
+
+/** The command of a request only the user driving the session sends. */
+const userRequestOf = (message: unknown): string | null => {
+  const { type, command, arguments: args } = asDebugMessage(message);
+  return type === "request" &&
+    typeof command === "string" &&
+    (DEBUG_REQUESTS.has(command) ||
+      (command === "evaluate" && EVALUATE_CONTEXTS.has(String(args?.context))))
+    ? command
+    : null;
+};
+
+const isStoppedEvent = (message: unknown): boolean => {
+  const { type, event } = asDebugMessage(message);
+  return type === "event" && event === "stopped";
+};
+
+const notebookDirectory = (notebook: vscode.NotebookDocument) =>
+  notebook.uri.scheme === "file"
+    ? vscode.Uri.file(path.dirname(notebook.uri.fsPath))
+    : undefined;
+
+// Global and workspace tasks have no folder of their own
+const taskFolder = (task: vscode.Task) =>
+  typeof task.scope === "object" ? task.scope.uri : undefined;
+
+export interface Activity {
+  source: ActivitySource;
+  directory?: string; // where it happened, if known
+}
+
+/**
+ * Turns editor, terminal, debugger, notebook and task events into activity
+ * of one source each. Sources turned off in the settings are dropped, and
+ * everything but coding only counts while the window has focus, so output
+ * of a long-running command doesn't keep a session going on its own.
+ */
+export class ActivityMonitor {
+  private disposables: vscode.Disposable[] = [];
+  private notifiers = new Map<
+    ActivitySource,
+    (activity: Activity & { reason: string }) => void
+  >();
+  private readonly onDidDetectActivityEmitter =
+    new vscode.EventEmitter<Activity>();
+  public readonly onDidDetectActivity = this.onDidDetectActivityEmitter.event;
+
+  constructor(private getConfig: () => TrackerConfig) {
+    this.watchDocuments();
+    this.watchEditors();
+    this.watchTerminals();
+    this.watchDebugging();
+    this.watchNotebooks();
+    this.watchTasks();
+  }
+
+  /**
+   * Reports activity, debounced per source. `where` is the document,
+   * directory or workspace folder it happened in.
+   */
+  private notify(
+    source: ActivitySource,
+    reason: string,
+    where?: vscode.Uri | vscode.TextDocument
+  ) {
+    const config = this.getConfig();
+    if (
+      !config.activitySources[source] ||
+      (source !== "coding" && !vscode.window.state.focused)
+    ) {
+      return;
+    }
+
+    let notifier = this.notifiers.get(source);
+    if (!notifier) {
+      // Logged once per burst, e.g. of terminal output or scrolling
+      notifier = debounce(
+        ({ reason, ...activity }: Activity & { reason: string }) => {
+          console.log(`Activity (${source}):`, reason);
+          this.onDidDetectActivityEmitter.fire(activity);
+        },
+        () => this.getConfig().activityDebounce
+      );
+      this.notifiers.set(source, notifier);
+    }
+    notifier({ source, reason, directory: this.directoryOf(where) });
+  }
+
+  private directoryOf(
+    where: vscode.Uri | vscode.TextDocument | undefined
+  ): string | undefined {
+    if (!where) {
+      return undefined;
+    }
+    if (where instanceof vscode.Uri) {
+      return where.scheme === "file" ? where.fsPath : undefined;
+    }
+    // Notebook cells have the notebook's path; untitled buffers have none
+    return where.uri.scheme === "file" ||
+      where.uri.scheme === NOTEBOOK_CELL_SCHEME
+      ? path.dirname(where.uri.fsPath)
+      : undefined;
+  }
+
+  /** Current directory of a terminal, where the shell reports it. */
+  private terminalDirectory(terminal: vscode.Terminal): vscode.Uri | undefined {
+    const cwd =
+      terminal.shellIntegration?.cwd ??
+      ("cwd" in terminal.creationOptions
+        ? terminal.creationOptions.cwd
+        : undefined);
+    return typeof cwd === "string" ? vscode.Uri.file(cwd) : cwd;
+  }
+
+  private subscribe<T>(event: vscode.Event<T>, listener: (value: T) => void) {
+    this.disposables.push(event(listener));
+  }
+
+  /** The source for work in a document, null for documents not tracked. */
+  private sourceOf(
+    uri: vscode.Uri,
+    source: ActivitySource
+  ): ActivitySource | null {
+    if (uri.scheme === NOTEBOOK_CELL_SCHEME) {
+      return "notebook";
+    }
+    return CODE_SCHEMES.has(uri.scheme) ? source : null;
+  }
+
+  private watchDocuments() {
+    this.subscribe(vscode.workspace.onDidChangeTextDocument, (event) => {
+      const source = this.sourceOf(event.document.uri, "coding");
+      if (source && event.contentChanges.length > 0) {
+        this.notify(
+          source,
+          `changed ${event.document.fileName}`,
+          event.document
+        );
+      }
+    });
+    this.subscribe(vscode.workspace.onDidSaveTextDocument, (document) => {
+      const source = this.sourceOf(document.uri, "coding");
+      if (source) {
+        this.notify(source, `saved ${document.fileName}`, document);
+      }
+    });
+    this.subscribe(vscode.workspace.onDidOpenTextDocument, (document) => {
+      // Notebooks open every cell at once
+      if (document.uri.scheme !== NOTEBOOK_CELL_SCHEME) {
+        const source = this.sourceOf(document.uri, "coding");
+        if (source) {
+          this.notify(source, `opened ${document.fileName}`, document);
+        }
+      }
+    });
+  }
+
+  private watchEditors() {
+    this.subscribe(vscode.window.onDidChangeActiveTextEditor, (editor) => {
+      const source = editor && this.sourceOf(editor.document.uri, "coding");
+      if (source) {
+        this.notify(
+          source,
+          `switched to ${editor!.document.fileName}`,
+          editor!.document
+        );
+      }
+    });
+    this.subscribe(
+      vscode.window.onDidChangeTextEditorVisibleRanges,
+      ({ textEditor }) => {
+        const source = this.sourceOf(textEditor.document.uri, "reading");
+        if (source) {
+          this.notify(
+            source,
+            `scrolled ${textEditor.document.fileName}`,
+            textEditor.document
+          );
+        }
+      }
+    );
+    this.subscribe(
+      vscode.window.onDidChangeTextEditorSelection,
+      ({ textEditor, kind }) => {
+        // Selections moved by edits have no kind and count as coding already
+        const source =
+          kind !== undefined &&
+          this.sourceOf(textEditor.document.uri, "reading");
+        if (source) {
+          this.notify(
+            source,
+            `moved in ${textEditor.document.fileName}`,
+            textEditor.document
+          );
+        }
+      }
+    );
+  }
+
+  private watchTerminals() {
+    this.subscribe(vscode.window.onDidOpenTerminal, (terminal) =>
+      this.notify(
+        "terminal",
+        `opened ${terminal.name}`,
+        this.terminalDirectory(terminal)
+      )
+    );
+    this.subscribe(vscode.window.onDidChangeActiveTerminal, (terminal) => {
+      if (terminal) {
+        this.notify(
+          "terminal",
+          `switched to ${terminal.name}`,
+          this.terminalDirectory(terminal)
+        );
+      }
+    });
+    // Fires once a terminal gets its first input
+    this.subscribe(vscode.window.onDidChangeTerminalState, (terminal) =>
+      this.notify(
+        "terminal",
+        `typed in ${terminal.name}`,
+        this.terminalDirectory(terminal)
+      )
+    );
+
+    // Commands are only reported in terminals with shell integration
+    this.subscribe(
+      vscode.window.onDidStartTerminalShellExecution,
+      ({ terminal, execution }) => {
+        this.notify(
+          "terminal",
+          `ran ${execution.commandLine.value}`,
+          execution.cwd
+        );
+        this.readOutput(terminal, execution);
+      }
+    );
+    this.subscribe(
+      vscode.window.onDidEndTerminalShellExecution,
+      ({ execution }) =>
+        this.notify(
+          "terminal",
+          `finished ${execution.commandLine.value}`,
+          execution.cwd
+        )
+    );
+  }
+
+  /** Counts output of a command while its terminal is the one shown. */
+  private async readOutput(
+    terminal: vscode.Terminal,
+    execution: vscode.TerminalShellExecution
+  ) {
+    try {
+      for await (const _data of execution.read()) {
+        if (vscode.window.activeTerminal === terminal) {
+          this.notify(
+            "terminal",
+            `output of ${execution.commandLine.value}`,
+            execution.cwd
+          );
+        }
+      }
+    } catch (error) {
+      console.error("Error reading terminal output:", error);
+    }
+  }
+
+  private watchDebugging() {
+    this.subscribe(vscode.debug.onDidStartDebugSession, (session) =>
+      this.notify(
+        "debugging",
+        `started ${session.name}`,
+        session.workspaceFolder?.uri
+      )
+    );
+    this.subscribe(vscode.debug.onDidTerminateDebugSession, (session) =>
+      this.notify(
+        "debugging",
+        `stopped ${session.name}`,
+        session.workspaceFolder?.uri
+      )
+    );
+    this.subscribe(vscode.debug.onDidChangeActiveDebugSession, (session) => {
+      if (session) {
+        this.notify(
+          "debugging",
+          `switched to ${session.name}`,
+          session.workspaceFolder?.uri
+        );
+      }
+    });
+    this.subscribe(vscode.debug.onDidChangeBreakpoints, () =>
+      this.notify("debugging", "changed breakpoints")
+    );
+
+    // Stepping and inspecting only show up in the adapter protocol
+    const notify = this.notify.bind(this);
+    this.disposables.push(
+      vscode.debug.registerDebugAdapterTrackerFactory("*", {
+        createDebugAdapterTracker: (session) => ({
+          onWillReceiveMessage(message: unknown) {
+            const command = userRequestOf(message);
+            if (command) {
+              notify(
+                "debugging",
+                `${command} in ${session.name}`,
+                session.workspaceFolder?.uri
+              );
+            }
+          },
+          onDidSendMessage(message: unknown) {
+            if (isStoppedEvent(message)) {
+              notify(
+                "debugging",
+                `stopped in ${session.name}`,
+                session.workspaceFolder?.uri
+              );
+            }
+          },
+        }),
+      })
+    );
+  }
+
+  private watchNotebooks() {
+    // Cell text edits arrive as document changes; these cover running
+    // cells, adding, moving and removing them
+    this.subscribe(vscode.workspace.onDidChangeNotebookDocument, (event) => {
+      if (event.contentChanges.length > 0 || event.cellChanges.length > 0) {
+        this.notify(
+          "notebook",
+          `changed ${event.notebook.uri.fsPath}`,
+          notebookDirectory(event.notebook)
+        );
+      }
+    });
+    this.subscribe(vscode.window.onDidChangeActiveNotebookEditor, (editor) => {
+      if (editor) {
+        this.notify(
+          "notebook",
+          `switched to ${editor.notebook.uri.fsPath}`,
+          notebookDirectory(editor.notebook)
+        );
+      }
+    });
+  }
+
+  private watchTasks() {
+    this.subscribe(vscode.tasks.onDidStartTask, ({ execution }) =>
+      this.notify(
+        "task",
+        `started ${execution.task.name}`,
+        taskFolder(execution.task)
+      )
+    );
+    this.subscribe(vscode.tasks.onDidEndTask, ({ execution }) =>
+      this.notify(
+        "task",
+        `finished ${execution.task.name}`,
+        taskFolder(execution.task)
+      )
+    );
+  }
+
+  public dispose() {
+    this.disposables.forEach((disposable) => disposable.dispose());
+    this.disposables = [];
+    this.onDidDetectActivityEmitter.dispose();
+  }
+}
@@ -0,0 +1,425 @@
+import * as vscode from "vscode";
+import {
+  BranchRename,
+  BranchStatus,
+  RepositoryInfo,
+} from "../interfaces/time-tracker";
+import { GitBranchTimeTracker } from "./time-tracker-service";
+import {
+  getBranchRenames,
+  getCurrentBranch,
+  getDefaultBranch,
+  getLocalBranches,
+  getMergedBranches,
+  getRemoteBranches,
+  hasOwnCommits,
+} from "../utils/git-utils";
+import {
+  summarizeBranch,
+  describeBranchSummary,
+} from "../utils/branch-summary";
+import { debounce } from "../utils/debounce";
+import { formatDuration } from "../utils/format";
+
+const SCAN_INTERVAL = 5 * 60 * 1000;
+// globalState keys
+const ARCHIVED_KEY = "gitBranchTimeTracker.archivedBranches";
+const ANNOUNCED_MERGES_KEY = "gitBranchTimeTracker.announcedMerges";
+const HANDLED_RENAMES_KEY = "gitBranchTimeTracker.handledRenames";
+
+// More merges than this in one scan get a single notification
+const MAX_MERGE_NOTIFICATIONS = 3;
+
+const branchKey = (repository: string, branch: string) =>
+  `${repository}|${branch}`;
+
+interface TrackedBranch {
+  repository: string;
+  branch: string;
+}
+
+/**
+ * Follows tracked branches through their life: marks them merged into the
+ * default branch or deleted, offers to carry history over renames, sums
+ * them up when merged, and keeps archived ones out of the dashboard.
+ */
+export class BranchLifecycle {
+  private statuses = new Map<string, BranchStatus>();
+  private scanning: Promise<void> | null = null;
+  // Renames with a notification still open
+  private openRenames = new Set<string>();
+  private scanTimer: NodeJS.Timeout;
+  private disposables: vscode.Disposable[] = [];
+
+  private readonly onDidChangeEmitter = new vscode.EventEmitter<void>();
+  // Fires when branch statuses or the archive change
+  public readonly onDidChange = this.onDidChangeEmitter.event;
+
+  constructor(
+    private readonly context: vscode.ExtensionContext,
+    private readonly tracker: GitBranchTimeTracker
+  ) {
+    this.scanTimer = setInterval(() => this.scan(), SCAN_INTERVAL);
+    // Renames rewrite HEAD, and merges usually follow a checkout
+    this.disposables.push(
+      tracker.onDidChangeHead(debounce(() => this.scan(), 2000))
+    );
+    // Give the store time to load before the first scan
+    setTimeout(() => this.scan(), 5000);
+  }
+
+  public getStatus(repository: string, branch: string): BranchStatus {
+    return this.statuses.get(branchKey(repository, branch)) || "active";
+  }
+
+  public isArchived(repository: string, branch: string): boolean {
+    return this.getArchivedKeys().includes(branchKey(repository, branch));
+  }
+
+  public getArchivedCount(): number {
+    return this.getArchivedKeys().length;
+  }
+
+  public async setArchived(branches: TrackedBranch[], archived: boolean) {
+    const keys = new Set(this.getArchivedKeys());
+    branches.forEach(({ repository, branch }) => {
+      if (archived) {
+        keys.add(branchKey(repository, branch));
+      } else {
+        keys.delete(branchKey(repository, branch));
+      }
+    });
+    await this.context.globalState.update(ARCHIVED_KEY, Array.from(keys));
+    this.onDidChangeEmitter.fire();
+  }
+
+  private getArchivedKeys(): string[] {
+    return this.context.globalState.get<string[]>(ARCHIVED_KEY, []);
+  }
+
+  /** Rechecks every workspace repository; concurrent calls share a scan. */
+  public scan(): Promise<void> {
+    if (!this.scanning) {
+      this.scanning = this.scanRepositories().finally(() => {
+        this.scanning = null;
+      });
+    }
+    return this.scanning;
+  }
+
+  private async scanRepositories() {
+    let changed = false;
+    // Branches are shared by worktrees, so the first of each will do
+    const repositories = (await this.tracker.getWorkspaceRepositories()).filter(
+      (repository, index, all) =>
+        all.findIndex(({ id }) => id === repository.id) === index
+    );
+    for (const repository of repositories) {
+      try {
+        changed = (await this.scanRepository(repository)) || changed;
+      } catch (error) {
+        console.error("Failed to check branches of", repository.root, error);
+      }
+    }
+    if (changed) {
+      this.onDidChangeEmitter.fire();
+    }
+  }
+
+  private async scanRepository(repository: RepositoryInfo): Promise<boolean> {
+    const [current, local, remote, defaultBranch, renames] = await Promise.all([
+      getCurrentBranch(repository.root),
+      getLocalBranches(repository.root),
+      getRemoteBranches(repository.root),
+      getDefaultBranch(repository.root),
+      getBranchRenames(repository.root),
+    ]);
+    const merged = defaultBranch
+      ? await getMergedBranches(repository.root, defaultBranch)
+      : [];
+    const defaultName = defaultBranch?.replace(/^origin\//, "");
+    const tracked = this.tracker.getBranches(repository.id);
+
+    // A branch just created from the default branch is in `merged` too, so
+    // only those with commits of their own count, and never the checked-out
+    // branch, which may be about to get some
+    const ownMerged = new Set<string>();
+    for (const branch of tracked) {
+      if (
+        defaultBranch &&
+        branch !== defaultName &&
+        branch !== current?.name &&
+        merged.includes(branch) &&
+        (await hasOwnCommits(repository.root, branch, defaultBranch))
+      ) {
+        ownMerged.add(branch);
+      }
+    }
+
+    let changed = false;
+    const mergedBranches: string[] = [];
+    tracked.forEach((branch) => {
+      let status: BranchStatus = "active";
+      if (branch !== defaultName && !branch.startsWith("detached@")) {
+        if (ownMerged.has(branch)) {
+          status = "merged";
+          mergedBranches.push(branch);
+        } else if (!local.includes(branch) && !remote.includes(branch)) {
+          status = "deleted";
+        }
+      }
+
+      const key = branchKey(repository.id, branch);
+      if (this.statuses.get(key) !== status) {
+        this.statuses.set(key, status);
+        changed = true;
+      }
+    });
+
+    this.announceMerges(repository, mergedBranches);
+    this.offerRenames(repository, renames);
+    return changed;
+  }
+
+  /**
+   * Shows the finished branch summary for branches merged since the last
+   * scan. Branches already merged when a repository is first seen are not
+   * announced.
+   */
+  private async announceMerges(repository: RepositoryInfo, merged: string[]) {
+    const announced = this.context.globalState.get<{
+      [repository: string]: string[];
+    }>(ANNOUNCED_MERGES_KEY, {});
+    const known = announced[repository.id];
+    const fresh = known
+      ? merged.filter((branch) => !known.includes(branch))
+      : [];
+
+    if (!known || fresh.length > 0) {
+      await this.context.globalState.update(ANNOUNCED_MERGES_KEY, {
+        ...announced,
+        [repository.id]: [...(known || []), ...(known ? fresh : merged)],
+      });
+    }
+    if (fresh.length === 0) {
+      return;
+    }
+
+    const archive = (branches: string[]) =>
+      this.setArchived(
+        branches.map((branch) => ({ repository: repository.id, branch })),
+        true
+      );
+
+    if (fresh.length > MAX_MERGE_NOTIFICATIONS) {
+      const selection = await vscode.window.showInformationMessage(
+        `${fresh.length} branches in ${repository.name} were merged.`,
+        "Archive All"
+      );
+      if (selection === "Archive All") {
+        archive(fresh);
+      }
+      return;
+    }
+
+    for (const branch of fresh) {
+      const summary = summarizeBranch(
+        this.tracker.getTimeData(),
+        repository.id,
+        branch,
+        this.tracker.getConfig()
+      );
+      if (!summary) {
+        continue;
+      }
+      const selection = await vscode.window.showInformationMessage(
+        `${branch} was merged: ${describeBranchSummary(summary)}.`,
+        "Archive"
+      );
+      if (selection === "Archive") {
+        await archive([branch]);
+      }
+    }
+  }
+
+  /**
+   * Offers to move the old name's time to the new one until the user
+   * answers, once per rename. Renames of branches without tracked time are
+   * offered once some shows up under the old name.
+   */
+  private async offerRenames(
+    repository: RepositoryInfo,
+    renames: BranchRename[]
+  ) {
+    for (const rename of renames) {
+      const key = `${repository.id}|${rename.from}|${rename.to}|${rename.timestamp}`;
+      if (
+        this.openRenames.has(key) ||
+        this.context.globalState
+          .get<string[]>(HANDLED_RENAMES_KEY, [])
+          .includes(key)
+      ) {
+        continue;
+      }
+
+      const entries = this.tracker
+        .getTimeData()
+        .filter(
+          (entry) =>
+            entry.repository === repository.id && entry.branch === rename.from
+        );
+      if (entries.length === 0) {
+        continue;
+      }
+
+      const total = entries.reduce((sum, entry) => sum + entry.duration, 0);
+      this.openRenames.add(key);
+      const selection = await vscode.window
+        .showInformationMessage(
+          `${rename.from} was renamed to ${
+            rename.to
+          }. Move its ${formatDuration(total)} of tracked time to ${
+            rename.to
+          }?`,
+          "Merge History",
+          "Keep Separate"
+        )
+        .then((selection) => {
+          this.openRenames.delete(key);
+          return selection;
+        });
+      // Dismissed notifications are offered again on a later scan
+      if (!selection) {
+        continue;
+      }
+      await this.context.globalState.update(HANDLED_RENAMES_KEY, [
+        ...this.context.globalState.get<string[]>(HANDLED_RENAMES_KEY, []),
+        key,
+      ]);
+      if (selection !== "Merge History") {
+        continue;
+      }
+      if (
+        !(await this.tracker.renameBranch(
+          repository.id,
+          rename.from,
+          rename.to
+        ))
+      ) {
+        vscode.window.showErrorMessage(
+          "Failed to move the tracked time. See the log for details."
+        );
+      }
+    }
+  }
+
+  /** Command: archives branches, with merged and deleted ones preselected. */
+  public async runArchive() {
+    const labels = this.tracker.getRepositoryLabels();
+    const items = this.getTrackedBranches()
+      .filter(({ repository, branch }) => !this.isArchived(repository, branch))
+      .map((tracked) => {
+        const status = this.getStatus(tracked.repository, tracked.branch);
+        return {
+          label: tracked.branch,
+          description: `${labels[tracked.repository] || tracked.repository}${
+            status === "active" ? "" : ` · ${status}`
+          }`,
+          picked: status !== "active",
+          tracked,
+        };
+      });
+    if (items.length === 0) {
+      vscode.window.showInformationMessage("There are no branches to archive.");
+      return;
+    }
+
+    const selected = await vscode.window.showQuickPick(items, {
+      canPickMany: true,
+      placeHolder: "Branches to hide from the dashboard",
+      matchOnDescription: true,
+    });
+    if (selected && selected.length > 0) {
+      await this.setArchived(
+        selected.map((item) => item.tracked),
+        true
+      );
+    }
+  }
+
+  /** Command: brings archived branches back into the dashboard. */
+  public async runRestore() {
+    const labels = this.tracker.getRepositoryLabels();
+    const items = this.getTrackedBranches()
+      .filter(({ repository, branch }) => this.isArchived(repository, branch))
+      .map((tracked) => ({
+        label: tracked.branch,
+        description: labels[tracked.repository] || tracked.repository,
+        tracked,
+      }));
+    if (items.length === 0) {
+      vscode.window.showInformationMessage("No branches are archived.");
+      return;
+    }
+
+    const selected = await vscode.window.showQuickPick(items, {
+      canPickMany: true,
+      placeHolder: "Archived branches to show again",
+      matchOnDescription: true,
+    });
+    if (selected && selected.length > 0) {
+      await this.setArchived(
+        selected.map((item) => item.tracked),
+        false
+      );
+    }
+  }
+
+  /** Command: shows the finished branch summary of any tracked branch. */
+  public async runShowSummary() {
+    const labels = this.tracker.getRepositoryLabels();
+    const selected = await vscode.window.showQuickPick(
+      this.getTrackedBranches().map((tracked) => ({
+        label: tracked.branch,
+        description: labels[tracked.repository] || tracked.repository,
+        tracked,
+      })),
+      { placeHolder: "Branch to summarize", matchOnDescription: true }
+    );
+    if (!selected) {
+      return;
+    }
+
+    const { repository, branch } = selected.tracked;
+    const summary = summarizeBranch(
+      this.tracker.getTimeData(),
+      repository,
+      branch,
+      this.tracker.getConfig()
+    );
+    if (summary) {
+      const status = this.getStatus(repository, branch);
+      vscode.window.showInformationMessage(
+        `${branch}${
+          status === "active" ? "" : ` (${status})`
+        }: ${describeBranchSummary(summary)}.`
+      );
+    }
+  }
+
+  private getTrackedBranches(): TrackedBranch[] {
+    return this.tracker
+      .getAllRepositories()
+      .flatMap((repository) =>
+        this.tracker
+          .getBranches(repository)
+          .map((branch) => ({ repository, branch }))
+      );
+  }
+
+  public dispose() {
+    clearInterval(this.scanTimer);
+    this.disposables.forEach((disposable) => disposable.dispose());
+    this.onDidChangeEmitter.dispose();
+  }
+}
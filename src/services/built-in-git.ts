@@ -0,0 +1,104 @@
+import * as vscode from "vscode";
+import * as path from "path";
+import { GitAPI, GitExtension, GitRepository } from "../interfaces/git";
+
+// The git extension finishes scanning for repositories in a few seconds;
+// lookups fall back to the git CLI rather than wait longer
+const READY_TIMEOUT = 10000;
+
+/**
+ * Access to the repositories the built-in git extension has open. Their
+ * HEAD is kept in memory and changes arrive as events, so looking up a
+ * branch doesn't spawn git. Resolves to nothing when the extension is
+ * missing or disabled.
+ */
+export class BuiltInGit {
+  private api: Promise<GitAPI | null>;
+  private disposables: vscode.Disposable[] = [];
+  private readonly onDidOpenRepositoryEmitter =
+    new vscode.EventEmitter<GitRepository>();
+  public readonly onDidOpenRepository = this.onDidOpenRepositoryEmitter.event;
+  private readonly onDidCloseRepositoryEmitter =
+    new vscode.EventEmitter<GitRepository>();
+  public readonly onDidCloseRepository = this.onDidCloseRepositoryEmitter.event;
+
+  constructor() {
+    this.api = this.load();
+  }
+
+  private async load(): Promise<GitAPI | null> {
+    try {
+      const extension =
+        vscode.extensions.getExtension<GitExtension>("vscode.git");
+      if (!extension) {
+        console.log("Built-in git extension not found, using the git CLI");
+        return null;
+      }
+      const exports = extension.isActive
+        ? extension.exports
+        : await extension.activate();
+      if (!exports.enabled) {
+        console.log("Built-in git extension disabled, using the git CLI");
+        return null;
+      }
+
+      const api = exports.getAPI(1);
+      this.disposables.push(
+        api.onDidOpenRepository((repository) =>
+          this.onDidOpenRepositoryEmitter.fire(repository)
+        ),
+        api.onDidCloseRepository((repository) =>
+          this.onDidCloseRepositoryEmitter.fire(repository)
+        )
+      );
+      if (api.state !== "initialized") {
+        await this.whenInitialized(api);
+      }
+      return api;
+    } catch (error) {
+      console.error("Could not load the built-in git extension:", error);
+      return null;
+    }
+  }
+
+  private whenInitialized(api: GitAPI): Promise<void> {
+    return new Promise((resolve) => {
+      const timer = setTimeout(() => {
+        listener.dispose();
+        resolve();
+      }, READY_TIMEOUT);
+      const listener = api.onDidChangeState((state) => {
+        if (state === "initialized") {
+          clearTimeout(timer);
+          listener.dispose();
+          resolve();
+        }
+      });
+    });
+  }
+
+  /**
+   * The innermost open repository containing `fsPath`, or null if the git
+   * extension doesn't have one open there (or isn't available).
+   */
+  public async getRepository(fsPath: string): Promise<GitRepository | null> {
+    const api = await this.api;
+    return api ? api.getRepository(vscode.Uri.file(fsPath)) : null;
+  }
+
+  /** The open repository whose root is exactly `root`, if any. */
+  public async getRepositoryAt(root: string): Promise<GitRepository | null> {
+    const api = await this.api;
+    return (
+      api?.repositories.find(
+        (repository) => path.relative(repository.rootUri.fsPath, root) === ""
+      ) || null
+    );
+  }
+
+  public dispose() {
+    this.disposables.forEach((disposable) => disposable.dispose());
+    this.onDidOpenRepositoryEmitter.dispose();
+    this.onDidCloseRepositoryEmitter.dispose();
+  }
+}
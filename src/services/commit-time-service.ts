@@ -0,0 +1,415 @@
+import * as vscode from "vscode";
+import * as fs from "fs";
+import * as path from "path";
+import {
+  CommitTime,
+  RepositoryInfo,
+  TimeEntry,
+} from "../interfaces/time-tracker";
+import { GitBranchTimeTracker } from "./time-tracker-service";
+import { BuiltInGit } from "./built-in-git";
+import {
+  getCommitLog,
+  getCurrentRepository,
+  getGitDir,
+  getHooksDir,
+  getHooksPathSetting,
+  getUserEmail,
+} from "../utils/git-utils";
+import { debounce } from "../utils/debounce";
+import {
+  attributeTimeToCommits,
+  formatTrailerDuration,
+  setTimeSpentTrailer,
+  timeBetween,
+  TIME_SPENT_TRAILER,
+} from "../utils/commit-time";
+
+const CACHE_TTL = 60 * 1000;
+// Changes arrive in bursts (a status refresh per saved file, a flush per
+// session); the file read by the prepare-commit-msg hook is written after
+const TIME_SPENT_WRITE_DELAY = 1000;
+// Whether the hook is installed, by id of the repositories checked so far
+const HOOKED_REPOSITORIES_KEY = "gitBranchTimeTracker.commitHookRepositories";
+// Written to the git dir of repositories with the hook installed
+const TIME_SPENT_FILE = "git-branch-time-spent";
+const HOOK_MARKER = "# Installed by Git Branch Time Tracker";
+
+// The extension keeps TIME_SPENT_FILE up to date with the branch, the HEAD
+// it was computed against and the time since; stale values are skipped
+const HOOK_SCRIPT = `#!/bin/sh
+${HOOK_MARKER}
+# Adds a ${TIME_SPENT_TRAILER} trailer with the time tracked since the last commit.
+case "$2" in merge|squash|commit) exit 0 ;; esac
+spent_file="$(git rev-parse --absolute-git-dir)/${TIME_SPENT_FILE}"
+[ -f "$spent_file" ] || exit 0
+[ "$(sed -n 1p "$spent_file")" = "$(git symbolic-ref --quiet --short HEAD)" ] || exit 0
+[ "$(sed -n 2p "$spent_file")" = "$(git rev-parse --verify --quiet HEAD)" ] || exit 0
+spent="$(sed -n 3p "$spent_file")"
+[ -n "$spent" ] || exit 0
+git interpret-trailers --in-place --if-exists replace --trailer "${TIME_SPENT_TRAILER}: $spent" "$1"
+`;
+
+/**
+ * Relates tracked time to commits: how long went into each commit on a
+ * branch, and how long has been spent since the last one.
+ */
+export class CommitTimeService {
+  private cache = new Map<
+    string,
+    { loadedAt: number; commits: Promise<CommitTime[]> }
+  >();
+  private git = new BuiltInGit();
+  private disposables: vscode.Disposable[] = [];
+  // Status listeners of hooked repositories the git extension has open,
+  // by root; commits and staging show up there first
+  private gitListeners = new Map<string, vscode.Disposable>();
+  // Last content written per root, so a write the git extension notices
+  // in the git directory doesn't cause another
+  private written = new Map<string, string>();
+  private scheduleWrite = debounce(
+    () => this.writeTimeSpentFiles(),
+    TIME_SPENT_WRITE_DELAY
+  );
+
+  constructor(
+    private readonly context: vscode.ExtensionContext,
+    private readonly tracker: GitBranchTimeTracker
+  ) {
+    this.disposables.push(
+      tracker.onDidChangeHead(() => this.scheduleWrite()),
+      tracker.onDidChangeTrackingState(() => this.scheduleWrite()),
+      tracker.onDidChangeTimeData(() => this.scheduleWrite())
+    );
+    this.scheduleWrite();
+  }
+
+  /** Time per commit for the latest `count` commits of yours on a branch. */
+  public getCommitTimes(
+    repository: RepositoryInfo,
+    branch: string,
+    count = 10
+  ): Promise<CommitTime[]> {
+    const key = `${repository.root}|${branch}|${count}`;
+    const cached = this.cache.get(key);
+    if (cached && Date.now() - cached.loadedAt < CACHE_TTL) {
+      return cached.commits;
+    }
+
+    const commits = this.loadCommitTimes(repository, branch, count);
+    this.cache.set(key, { loadedAt: Date.now(), commits });
+    return commits;
+  }
+
+  private async loadCommitTimes(
+    repository: RepositoryInfo,
+    branch: string,
+    count: number
+  ): Promise<CommitTime[]> {
+    const email = await getUserEmail(repository.root);
+    // One extra commit marks where the oldest listed commit's work began
+    const commits = await getCommitLog(
+      repository.root,
+      branch,
+      count + 1,
+      email || undefined
+    );
+    const since =
+      commits.length > count ? commits[commits.length - 1].timestamp : null;
+
+    return attributeTimeToCommits(
+      this.getEntries(repository.id, branch),
+      commits.slice(0, count),
+      since
+    );
+  }
+
+  /** Seconds tracked on `branch` since the commit HEAD points at. */
+  public async getTimeSinceLastCommit(
+    repository: RepositoryInfo,
+    branch: string
+  ): Promise<number> {
+    const [head] = await getCommitLog(repository.root, "HEAD", 1);
+    const since = head ? head.timestamp : -Infinity;
+
+    let seconds = this.getEntries(repository.id, branch).reduce(
+      (sum, entry) => sum + timeBetween(entry, since, Infinity),
+      0
+    );
+
+    const active = this.tracker.getActiveSession();
+    if (active?.repository === repository.id && active.branch === branch) {
+      seconds += Math.max(
+        0,
+        (active.lastActivity - Math.max(active.startTime, since)) / 1000
+      );
+    }
+    return Math.round(seconds);
+  }
+
+  private getEntries(repository: string, branch: string): TimeEntry[] {
+    return [
+      ...this.tracker.getTimeData(),
+      ...this.tracker.getPendingEntries(),
+    ].filter(
+      (entry) => entry.repository === repository && entry.branch === branch
+    );
+  }
+
+  /**
+   * Installs a prepare-commit-msg hook that appends a Time-Spent trailer.
+   * An existing hook that this extension did not write is left alone.
+   */
+  public async installHook(repository: RepositoryInfo): Promise<void> {
+    const hookPath = await this.getHookPath(repository);
+    const existing = await fs.promises
+      .readFile(hookPath, "utf8")
+      .catch(() => null);
+    if (existing !== null && !existing.includes(HOOK_MARKER)) {
+      throw new Error(
+        `${hookPath} already exists. Add the ${TIME_SPENT_TRAILER} trailer to it by hand or remove it first.`
+      );
+    }
+
+    await fs.promises.mkdir(path.dirname(hookPath), { recursive: true });
+    await fs.promises.writeFile(hookPath, HOOK_SCRIPT, { mode: 0o755 });
+    await this.setHooked(repository.id, true);
+    this.written.delete(repository.root);
+    await this.writeTimeSpentFile(repository);
+  }
+
+  public async uninstallHook(repository: RepositoryInfo): Promise<boolean> {
+    if (!(await this.isHookInstalled(repository))) {
+      return false;
+    }
+    await fs.promises.unlink(await this.getHookPath(repository));
+    await this.setHooked(repository.id, false);
+    this.gitListeners.get(repository.root)?.dispose();
+    this.gitListeners.delete(repository.root);
+    this.written.delete(repository.root);
+    const gitDir = await getGitDir(repository.root);
+    if (gitDir) {
+      await fs.promises
+        .unlink(path.join(gitDir, TIME_SPENT_FILE))
+        .catch(() => undefined);
+    }
+    return true;
+  }
+
+  public async isHookInstalled(repository: RepositoryInfo): Promise<boolean> {
+    const hook = await fs.promises
+      .readFile(await this.getHookPath(repository), "utf8")
+      .catch(() => "");
+    return hook.includes(HOOK_MARKER);
+  }
+
+  private async getHookPath(repository: RepositoryInfo): Promise<string> {
+    const hooksDir = await getHooksDir(repository.root);
+    if (!hooksDir) {
+      throw new Error(`${repository.root} is not a Git repository.`);
+    }
+    return path.join(hooksDir, "prepare-commit-msg");
+  }
+
+  private getHookedRepositories(): { [repository: string]: boolean } {
+    return this.context.globalState.get(HOOKED_REPOSITORIES_KEY, {});
+  }
+
+  private async setHooked(repositoryId: string, hooked: boolean) {
+    await this.context.globalState.update(HOOKED_REPOSITORIES_KEY, {
+      ...this.getHookedRepositories(),
+      [repositoryId]: hooked,
+    });
+  }
+
+  /**
+   * Whether the hook is installed, looked up on disk only the first time a
+   * repository is seen; hooks installed by hand later aren't noticed.
+   */
+  private async isHooked(repository: RepositoryInfo): Promise<boolean> {
+    const known = this.getHookedRepositories()[repository.id];
+    if (known !== undefined) {
+      return known;
+    }
+    const hooked = await this.isHookInstalled(repository);
+    await this.setHooked(repository.id, hooked);
+    return hooked;
+  }
+
+  private async writeTimeSpentFiles() {
+    try {
+      // Every worktree has a git directory of its own for the hook to read
+      const repositories = await this.tracker.getWorkspaceRepositories();
+      for (const repository of repositories) {
+        if (await this.isHooked(repository)) {
+          await this.followStatus(repository);
+          await this.writeTimeSpentFile(repository);
+        }
+      }
+    } catch (error) {
+      console.error("Failed to update time spent for commit hooks:", error);
+    }
+  }
+
+  private async followStatus(repository: RepositoryInfo) {
+    if (this.gitListeners.has(repository.root)) {
+      return;
+    }
+    const gitRepository = await this.git.getRepositoryAt(repository.root);
+    if (gitRepository && !this.gitListeners.has(repository.root)) {
+      this.gitListeners.set(
+        repository.root,
+        gitRepository.state.onDidChange(() => this.scheduleWrite())
+      );
+    }
+  }
+
+  private async writeTimeSpentFile(repository: RepositoryInfo) {
+    const gitDir = await getGitDir(repository.root);
+    const state = await this.tracker.getRepositoryState(repository.root);
+    if (!gitDir || !state || state.branch.state !== "branch") {
+      return;
+    }
+
+    const branch = state.branch.name;
+    const [head] = await getCommitLog(repository.root, "HEAD", 1);
+    const seconds = await this.getTimeSinceLastCommit(repository, branch);
+    const content =
+      [
+        branch,
+        head?.hash || "",
+        seconds >= 60 ? formatTrailerDuration(seconds) : "",
+      ].join("\n") + "\n";
+    if (this.written.get(repository.root) === content) {
+      return;
+    }
+    await fs.promises.writeFile(path.join(gitDir, TIME_SPENT_FILE), content);
+    this.written.set(repository.root, content);
+  }
+
+  /** Command: installs the commit hook in a workspace repository. */
+  public async runInstallHook() {
+    const repository = await this.pickRepository(
+      "Repository to add the commit hook to"
+    );
+    if (!repository) {
+      return;
+    }
+    // Hook directories such as husky's are usually committed
+    const hooksPath = await getHooksPathSetting(repository.root);
+    if (hooksPath) {
+      const choice = await vscode.window.showWarningMessage(
+        `${repository.name} takes its hooks from ${hooksPath} (core.hooksPath). If that directory is tracked, the hook will be committed for everyone.`,
+        { modal: true },
+        "Install There"
+      );
+      if (choice !== "Install There") {
+        return;
+      }
+    }
+    try {
+      await this.installHook(repository);
+      vscode.window.showInformationMessage(
+        `Commits in ${repository.name} will get a ${TIME_SPENT_TRAILER} trailer.`
+      );
+    } catch (error: any) {
+      vscode.window.showErrorMessage(
+        `Could not install the commit hook: ${error.message || error}`
+      );
+    }
+  }
+
+  /** Command: removes the commit hook from a workspace repository. */
+  public async runUninstallHook() {
+    const repository = await this.pickRepository(
+      "Repository to remove the commit hook from"
+    );
+    if (!repository) {
+      return;
+    }
+    try {
+      const removed = await this.uninstallHook(repository);
+      vscode.window.showInformationMessage(
+        removed
+          ? `Removed the commit hook from ${repository.name}.`
+          : `${repository.name} has no commit hook from this extension.`
+      );
+    } catch (error: any) {
+      vscode.window.showErrorMessage(
+        `Could not remove the commit hook: ${error.message || error}`
+      );
+    }
+  }
+
+  /**
+   * Command: adds the trailer to the commit message box of the Source
+   * Control view, for the repository whose title bar was clicked.
+   */
+  public async addTrailerToCommitMessage(sourceControl?: {
+    rootUri?: vscode.Uri;
+  }) {
+    const root =
+      sourceControl?.rootUri?.fsPath ||
+      (await this.pickRepository("Repository to add the trailer to"))?.root;
+    if (!root) {
+      return;
+    }
+    const gitRepository = await this.git.getRepositoryAt(root);
+    if (!gitRepository) {
+      vscode.window.showWarningMessage(
+        "The Git extension doesn't have this repository open."
+      );
+      return;
+    }
+    const repository = await getCurrentRepository(root);
+    const branch = gitRepository.state.HEAD?.name;
+    if (!repository || !branch) {
+      return;
+    }
+
+    const seconds = await this.getTimeSinceLastCommit(repository, branch);
+    if (seconds < 60) {
+      vscode.window.showInformationMessage(
+        `Less than a minute tracked on ${branch} since the last commit.`
+      );
+      return;
+    }
+    gitRepository.inputBox.value = setTimeSpentTrailer(
+      gitRepository.inputBox.value,
+      seconds
+    );
+  }
+
+  private async pickRepository(
+    placeHolder: string
+  ): Promise<RepositoryInfo | undefined> {
+    const repositories = await this.tracker.getWorkspaceRepositories();
+    if (repositories.length === 0) {
+      vscode.window.showInformationMessage(
+        "No Git repository is open in this window."
+      );
+      return undefined;
+    }
+    if (repositories.length === 1) {
+      return repositories[0];
+    }
+
+    const selected = await vscode.window.showQuickPick(
+      repositories.map((repository) => ({
+        label: repository.worktree
+          ? `${repository.name} (${repository.worktree})`
+          : repository.name,
+        description: repository.root,
+        repository,
+      })),
+      { placeHolder }
+    );
+    return selected?.repository;
+  }
+
+  public dispose() {
+    this.disposables.forEach((disposable) => disposable.dispose());
+    this.gitListeners.forEach((listener) => listener.dispose());
+    this.git.dispose();
+  }
+}
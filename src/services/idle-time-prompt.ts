@@ -0,0 +1,71 @@
+import * as vscode from "vscode";
+import { IdleGap } from "../interfaces/time-tracker";
+import { formatDuration } from "../utils/format";
+
+/**
+ * Asks what to do with idle time once activity resumes: count it for the
+ * branch that went idle, drop it, or book it to another branch or label.
+ */
+export class IdleTimePrompt {
+  // Gaps are asked about one at a time, in the order they were reported
+  private queue: Promise<unknown> = Promise.resolve();
+
+  constructor(
+    // Branches already tracked in a repository, offered for reassignment
+    private readonly getBranches: (repository: string) => string[]
+  ) {}
+
+  /**
+   * Resolves to the branch the gap should be booked to, or null to discard
+   * it. Gaps arriving while a prompt is still open wait for their turn.
+   */
+  public ask(gap: IdleGap): Promise<string | null> {
+    const answer = this.queue.then(() => this.prompt(gap));
+    this.queue = answer.catch(() => undefined);
+    return answer;
+  }
+
+  private async prompt(gap: IdleGap): Promise<string | null> {
+    const { branch, repositoryName } = gap.session;
+    const keep = `Keep on ${branch}`;
+    const selection = await vscode.window.showInformationMessage(
+      `You were idle for ${formatDuration(
+        Math.floor((gap.end - gap.start) / 1000)
+      )} (since ${new Date(
+        gap.start
+      ).toLocaleTimeString()}). Count this time for ${repositoryName}/${branch}?`,
+      keep,
+      "Discard",
+      "Reassign…"
+    );
+
+    if (selection === keep) {
+      return branch;
+    }
+    if (selection === "Reassign…") {
+      return (await this.pickBranch(gap)) || null;
+    }
+    // Dismissed notifications drop the time, as before idle prompts
+    return null;
+  }
+
+  private async pickBranch(gap: IdleGap): Promise<string | undefined> {
+    const other = "$(edit) Other…";
+    const branches = this.getBranches(gap.session.repository).filter(
+      (branch) => branch !== gap.session.branch
+    );
+    const selected = await vscode.window.showQuickPick([...branches, other], {
+      placeHolder: `Book the idle time in ${gap.session.repositoryName} to`,
+    });
+    if (selected !== other) {
+      return selected;
+    }
+
+    const label = await vscode.window.showInputBox({
+      prompt: "Branch or label, e.g. code-review or meeting",
+      validateInput: (value) =>
+        value.trim() ? undefined : "Enter a branch name or label",
+    });
+    return label?.trim();
+  }
+}
@@ -0,0 +1,84 @@
+import * as vscode from "vscode";
+import { IssueSummary } from "../interfaces/time-tracker";
+import { GitBranchTimeTracker } from "./time-tracker-service";
+import { checkoutBranch } from "../utils/git-utils";
+import { formatDuration } from "../utils/format";
+
+/**
+ * Lists time per issue key and jumps from a ticket to one of its branches,
+ * checking it out when its repository is open in this window.
+ */
+export class IssueQuickPick {
+  constructor(private readonly tracker: GitBranchTimeTracker) {}
+
+  public async run() {
+    const issues = this.tracker.getIssueSummaries();
+    if (issues.length === 0) {
+      vscode.window.showInformationMessage(
+        "No tracked branch names contain an issue key. Check the gitBranchTimeTracker.issueKeyPatterns setting."
+      );
+      return;
+    }
+
+    const issue = await vscode.window.showQuickPick(
+      issues.map((issue) => ({
+        label: issue.key,
+        description: formatDuration(issue.duration),
+        detail: `${issue.branches.length} ${
+          issue.branches.length === 1 ? "branch" : "branches"
+        } · ${issue.sessions} sessions`,
+        issue,
+      })),
+      { placeHolder: "Issue", matchOnDetail: true }
+    );
+    if (!issue) {
+      return;
+    }
+
+    await this.pickBranch(issue.issue);
+  }
+
+  private async pickBranch(issue: IssueSummary) {
+    const labels = this.tracker.getRepositoryLabels();
+    const selected = await vscode.window.showQuickPick(
+      issue.branches.map((branch) => ({
+        label: `$(git-branch) ${branch.branch}`,
+        description: labels[branch.repository] || branch.repository,
+        detail: formatDuration(branch.duration),
+        branch,
+      })),
+      { placeHolder: `Branches for ${issue.key} — select one to check it out` }
+    );
+    if (!selected) {
+      return;
+    }
+
+    const { repository, branch } = selected.branch;
+    const root = await this.findRepositoryRoot(repository);
+    if (!root) {
+      vscode.window.showInformationMessage(
+        `${labels[repository] || repository} is not open in this window.`
+      );
+      return;
+    }
+
+    try {
+      await checkoutBranch(root, branch);
+      vscode.window.showInformationMessage(`Checked out ${branch}.`);
+    } catch (error) {
+      vscode.window.showErrorMessage(
+        `Could not check out ${branch}: ${
+          error instanceof Error ? error.message : String(error)
+        }`
+      );
+    }
+  }
+
+  // The first worktree open here, if the repository has several
+  private async findRepositoryRoot(
+    repository: string
+  ): Promise<string | undefined> {
+    const repositories = await this.tracker.getWorkspaceRepositories();
+    return repositories.find(({ id }) => id === repository)?.root;
+  }
+}
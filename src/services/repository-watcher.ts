@@ -0,0 +1,351 @@
+import * as vscode from "vscode";
+import * as fs from "fs";
+import * as path from "path";
+import {
+  RepositoryState,
+  HeadChangeEvent,
+  BranchInfo,
+} from "../interfaces/time-tracker";
+import { GitRepository } from "../interfaces/git";
+import {
+  getCurrentRepository,
+  getCurrentBranch,
+  getBranchFromHead,
+  getGitDir,
+} from "../utils/git-utils";
+import { BuiltInGit } from "./built-in-git";
+
+interface WatchedRepository extends RepositoryState {
+  gitDir: string;
+  // Either the built-in git extension reports changes, or we watch gitDir
+  gitRepository: GitRepository | null;
+  listener: vscode.Disposable | null;
+  watcher: fs.FSWatcher | null;
+  pendingSince: number | null;
+  pendingTimer: NodeJS.Timeout | null;
+}
+
+// Files in the git directory whose creation or removal can change the branch
+// or the in-progress operation reported by getCurrentBranch
+const WATCHED_ENTRIES = new Set([
+  "HEAD",
+  "MERGE_HEAD",
+  "CHERRY_PICK_HEAD",
+  "REVERT_HEAD",
+  "BISECT_LOG",
+  "rebase-merge",
+  "rebase-apply",
+]);
+
+// Git touches several files per checkout; wait for them to settle
+const SETTLE_DELAY = 100;
+
+/**
+ * Caches the repository and branch of each workspace folder, or directory
+ * of an edited file, so activity doesn't spawn git. Branch changes are
+ * reported when they happen instead of on the next editor event: by the
+ * built-in git extension for the repositories it has open, otherwise by
+ * watching the git directory (the per-worktree one for linked worktrees).
+ */
+export class RepositoryWatcher {
+  private git = new BuiltInGit();
+  private folders = new Map<string, Promise<string | null>>();
+  private gitDirs = new Map<string, Promise<string | null>>(); // by root
+  private repositories = new Map<string, WatchedRepository>();
+  // Folders found not to be in a repository, until one is created
+  private outsideRepositories = new Set<string>();
+  private gitFolderWatcher: vscode.FileSystemWatcher;
+  private readonly onDidChangeHeadEmitter =
+    new vscode.EventEmitter<HeadChangeEvent>();
+  public readonly onDidChangeHead = this.onDidChangeHeadEmitter.event;
+
+  constructor() {
+    this.git.onDidOpenRepository((opened) => this.onRepositoryOpened(opened));
+    this.git.onDidCloseRepository((closed) => this.onRepositoryClosed(closed));
+
+    // A `git init` or clone may turn such folders into repositories
+    this.gitFolderWatcher = vscode.workspace.createFileSystemWatcher(
+      "**/.git",
+      false,
+      true,
+      true
+    );
+    this.gitFolderWatcher.onDidCreate(() => {
+      this.outsideRepositories.forEach((folderPath) =>
+        this.folders.delete(folderPath)
+      );
+      this.outsideRepositories.clear();
+    });
+  }
+
+  /**
+   * Moves a repository followed through its git directory over to the git
+   * extension, which just opened it.
+   */
+  private onRepositoryOpened(opened: GitRepository) {
+    Array.from(this.repositories.values())
+      .filter(
+        (watched) =>
+          !watched.gitRepository &&
+          path.relative(watched.repository.root, opened.rootUri.fsPath) === ""
+      )
+      .forEach((watched) => {
+        this.forget(watched.gitDir);
+        this.getState(watched.repository.root);
+      });
+    // Folders resolved with the git CLI may now have an open repository
+    this.folders.clear();
+  }
+
+  /**
+   * Stops following a repository the git extension closed and resolves it
+   * again, with the git CLI unless the extension opens it anew.
+   */
+  private onRepositoryClosed(closed: GitRepository) {
+    Array.from(this.repositories.values())
+      // The API hands out a new object per call, so compare roots
+      .filter(
+        (watched) =>
+          watched.gitRepository?.rootUri.fsPath === closed.rootUri.fsPath
+      )
+      .forEach((watched) => {
+        this.forget(watched.gitDir);
+        this.gitDirs.delete(watched.repository.root);
+        this.getState(watched.repository.root);
+      });
+  }
+
+  public async getState(folderPath: string): Promise<RepositoryState | null> {
+    let gitDir = this.folders.get(folderPath);
+    if (!gitDir) {
+      gitDir = this.watchFolder(folderPath);
+      this.folders.set(folderPath, gitDir);
+    }
+
+    const resolved = await gitDir;
+    const watched = resolved ? this.repositories.get(resolved) : undefined;
+    if (!watched) {
+      if (!resolved) {
+        this.outsideRepositories.add(folderPath);
+      }
+      return null;
+    }
+
+    if (!watched.listener && !watched.watcher) {
+      // Nothing tells us about changes, so the cached branch can't be trusted
+      watched.branch =
+        (await getCurrentBranch(watched.repository.root)) || watched.branch;
+    }
+
+    return { repository: watched.repository, branch: watched.branch };
+  }
+
+  /** Repositories resolved so far, with nested ones found from files. */
+  public getRepositories(): RepositoryState[] {
+    return Array.from(this.repositories.values()).map(
+      ({ repository, branch }) => ({ repository, branch })
+    );
+  }
+
+  /** The git directory of a repository root, looked up once. */
+  private getGitDirOf(root: string): Promise<string | null> {
+    let gitDir = this.gitDirs.get(root);
+    if (!gitDir) {
+      gitDir = getGitDir(root);
+      this.gitDirs.set(root, gitDir);
+    }
+    return gitDir;
+  }
+
+  /**
+   * Whether a directory between `folderPath` and `root` has a `.git` of its
+   * own: a nested repository the git extension didn't open.
+   */
+  private async isInNestedRepository(
+    folderPath: string,
+    root: string
+  ): Promise<boolean> {
+    for (
+      let directory = path.resolve(folderPath);
+      directory !== path.resolve(root) && directory !== path.dirname(directory);
+      directory = path.dirname(directory)
+    ) {
+      try {
+        await fs.promises.access(path.join(directory, ".git"));
+        return true;
+      } catch (error) {
+        // Not a repository root, keep going up
+      }
+    }
+    return false;
+  }
+
+  private async watchFolder(folderPath: string): Promise<string | null> {
+    let gitRepository = await this.git.getRepository(folderPath);
+    if (
+      gitRepository &&
+      (await this.isInNestedRepository(
+        folderPath,
+        gitRepository.rootUri.fsPath
+      ))
+    ) {
+      gitRepository = null;
+    }
+    const root = gitRepository ? gitRepository.rootUri.fsPath : folderPath;
+    const gitDir = gitRepository
+      ? await this.getGitDirOf(root)
+      : await getGitDir(folderPath);
+    if (!gitDir || this.repositories.has(gitDir)) {
+      return gitDir;
+    }
+
+    const repository = await getCurrentRepository(root);
+    const head = gitRepository?.state.HEAD;
+    const branch = head
+      ? await getBranchFromHead(gitDir, head)
+      : await getCurrentBranch(root);
+    if (!repository || !branch) {
+      return null;
+    }
+
+    const watched: WatchedRepository = {
+      repository,
+      branch,
+      gitDir,
+      gitRepository,
+      listener: null,
+      watcher: null,
+      pendingSince: null,
+      pendingTimer: null,
+    };
+
+    if (gitRepository) {
+      watched.listener = gitRepository.state.onDidChange(() =>
+        this.onGitDirChange(watched)
+      );
+      this.repositories.set(gitDir, watched);
+      console.log("Following HEAD of", repository.id, "through vscode.git");
+      return gitDir;
+    }
+
+    try {
+      watched.watcher = fs.watch(gitDir, (_event, filename) => {
+        if (filename && WATCHED_ENTRIES.has(filename.toString())) {
+          this.onGitDirChange(watched);
+        }
+      });
+      watched.watcher.on("error", (error) => {
+        console.error("HEAD watcher failed:", gitDir, error);
+        this.forget(gitDir);
+      });
+    } catch (error) {
+      console.error("Could not watch git directory:", gitDir, error);
+    }
+
+    this.repositories.set(gitDir, watched);
+    console.log("Watching HEAD of", repository.id, "in", gitDir);
+    return gitDir;
+  }
+
+  // The git extension reports changes after its status refresh, a moment
+  // after the file changes the fs watcher sees
+  private onGitDirChange(watched: WatchedRepository) {
+    if (watched.pendingSince === null) {
+      watched.pendingSince = Date.now();
+    }
+    if (watched.pendingTimer) {
+      clearTimeout(watched.pendingTimer);
+    }
+
+    watched.pendingTimer = setTimeout(async () => {
+      const timestamp = watched.pendingSince as number;
+      watched.pendingSince = null;
+      watched.pendingTimer = null;
+
+      const head = watched.gitRepository?.state.HEAD;
+      const branch = head
+        ? await getBranchFromHead(watched.gitDir, head)
+        : await getCurrentBranch(watched.repository.root);
+      if (branch) {
+        this.setBranch(watched, branch, timestamp);
+      }
+    }, SETTLE_DELAY);
+  }
+
+  /**
+   * Reads the branch of the repository at `folderPath` from disk now, e.g.
+   * right after a checkout, instead of waiting for it to be reported.
+   */
+  public async refresh(folderPath: string) {
+    await this.getState(folderPath);
+    const gitDir = await this.folders.get(folderPath);
+    const watched = gitDir ? this.repositories.get(gitDir) : undefined;
+    const branch = watched && (await getCurrentBranch(watched.repository.root));
+    if (watched && branch) {
+      this.setBranch(watched, branch, Date.now());
+    }
+  }
+
+  private setBranch(
+    watched: WatchedRepository,
+    branch: BranchInfo,
+    timestamp: number
+  ) {
+    if (
+      !this.repositories.has(watched.gitDir) ||
+      (branch.name === watched.branch.name &&
+        branch.state === watched.branch.state)
+    ) {
+      return;
+    }
+
+    const previousBranch = watched.branch;
+    watched.branch = branch;
+    console.log(
+      "HEAD changed:",
+      watched.repository.id,
+      previousBranch.name,
+      "->",
+      branch.name
+    );
+
+    this.onDidChangeHeadEmitter.fire({
+      repository: watched.repository,
+      branch,
+      previousBranch,
+      timestamp,
+    });
+  }
+
+  private forget(gitDir: string) {
+    const watched = this.repositories.get(gitDir);
+    if (!watched) {
+      return;
+    }
+
+    watched.listener?.dispose();
+    watched.watcher?.close();
+    if (watched.pendingTimer) {
+      clearTimeout(watched.pendingTimer);
+    }
+    this.repositories.delete(gitDir);
+
+    // Folders pointing at this repository are resolved again on next use
+    this.folders.clear();
+  }
+
+  public reset() {
+    Array.from(this.repositories.keys()).forEach((gitDir) =>
+      this.forget(gitDir)
+    );
+    this.folders.clear();
+    this.outsideRepositories.clear();
+  }
+
+  public dispose() {
+    this.reset();
+    this.gitFolderWatcher.dispose();
+    this.git.dispose();
+    this.onDidChangeHeadEmitter.dispose();
+  }
+}
@@ -0,0 +1,129 @@
+import * as path from "path";
+import * as fs from "fs";
+import { SessionCheckpoint } from "../interfaces/time-tracker";
+
+const CHECKPOINT_DIR = "checkpoints";
+
+// A live window rewrites its checkpoint every interval; allow for a missed
+// tick or two before treating the checkpoint as left behind by a crash
+const STALE_INTERVALS = 3;
+
+/**
+ * One checkpoint file per window in global storage, holding the window's
+ * active session and unflushed entries. A clean shutdown removes it, so any
+ * file that stops being refreshed belongs to a window that died.
+ */
+export class SessionCheckpointStore {
+  private hasWritten = false;
+  // When the earliest checkpoint of another window seen alive at the last
+  // check goes stale, null if there was none
+  private nextStaleAt: number | null = null;
+
+  constructor(
+    private readonly storagePath: string | undefined,
+    private readonly windowId: string
+  ) {}
+
+  private get directory(): string | null {
+    return this.storagePath
+      ? path.join(this.storagePath, CHECKPOINT_DIR)
+      : null;
+  }
+
+  private fileFor(windowId: string): string | null {
+    const directory = this.directory;
+    return directory
+      ? path.join(directory, `${encodeURIComponent(windowId)}.json`)
+      : null;
+  }
+
+  /**
+   * Writes the checkpoint. Returns false when the previous checkpoint of this
+   * window was taken by another window's recovery, in which case everything
+   * it contained has already been stored.
+   */
+  public save(checkpoint: SessionCheckpoint): boolean {
+    const file = this.fileFor(this.windowId);
+    if (!file) {
+      return true;
+    }
+
+    const wasTaken = this.hasWritten && !fs.existsSync(file);
+
+    try {
+      fs.mkdirSync(path.dirname(file), { recursive: true });
+      fs.writeFileSync(file, JSON.stringify(checkpoint));
+      this.hasWritten = true;
+    } catch (error) {
+      console.error("Failed to write session checkpoint:", error);
+    }
+
+    return !wasTaken;
+  }
+
+  public clear() {
+    const file = this.fileFor(this.windowId);
+    if (!file) {
+      return;
+    }
+
+    try {
+      if (fs.existsSync(file)) {
+        fs.unlinkSync(file);
+      }
+    } catch (error) {
+      console.error("Failed to remove session checkpoint:", error);
+    }
+    this.hasWritten = false;
+  }
+
+  /**
+   * Whether a checkpoint that looked alive at the last check may have gone
+   * stale since, e.g. that of a window which crashed right before this one
+   * started.
+   */
+  public hasDueCheckpoints(now: number = Date.now()): boolean {
+    return this.nextStaleAt !== null && now > this.nextStaleAt;
+  }
+
+  /**
+   * Removes and returns the checkpoints of windows that stopped refreshing
+   * them. Unreadable checkpoint files are left in place for inspection.
+   */
+  public takeOrphaned(now: number = Date.now()): SessionCheckpoint[] {
+    const directory = this.directory;
+    if (!directory || !fs.existsSync(directory)) {
+      return [];
+    }
+
+    const orphaned: SessionCheckpoint[] = [];
+    this.nextStaleAt = null;
+
+    fs.readdirSync(directory)
+      .filter((name) => name.endsWith(".json"))
+      .forEach((name) => {
+        const file = path.join(directory, name);
+        try {
+          const checkpoint: SessionCheckpoint = JSON.parse(
+            fs.readFileSync(file, "utf8")
+          );
+          if (checkpoint.windowId === this.windowId) {
+            return;
+          }
+          const staleAt =
+            checkpoint.updatedAt + checkpoint.interval * STALE_INTERVALS;
+          if (now <= staleAt) {
+            this.nextStaleAt = Math.min(this.nextStaleAt ?? staleAt, staleAt);
+            return;
+          }
+
+          fs.unlinkSync(file);
+          orphaned.push(checkpoint);
+        } catch (error) {
+          console.error("Failed to read session checkpoint:", file, error);
+        }
+      });
+
+    return orphaned;
+  }
+}
@@ -0,0 +1,333 @@
+import * as vscode from "vscode";
+import * as fs from "fs";
+import { TimeEntry } from "../interfaces/time-tracker";
+import { TrackerConfig } from "../interfaces/config";
+import { GitBranchTimeTracker } from "./time-tracker-service";
+import {
+  toSessionCsv,
+  toDailyCsv,
+  toIssueCsv,
+  toFileCsv,
+  toJson,
+  toICalendar,
+} from "../utils/export-formats";
+import {
+  toDateKey,
+  addDays,
+  startOfWeek,
+  isDateKey,
+  splitByDay,
+  getEntryDate,
+} from "../utils/date-utils";
+
+interface DateRange {
+  from: string | null; // inclusive YYYY-MM-DD, null for unbounded
+  to: string | null;
+}
+
+const NO_RANGE: DateRange = { from: null, to: null };
+
+interface ExportFormat {
+  label: string;
+  detail: string;
+  extension: string;
+  filterName: string;
+  render: (
+    entries: TimeEntry[],
+    labels: { [repository: string]: string },
+    range: DateRange,
+    config: TrackerConfig
+  ) => string;
+}
+
+const EXPORT_FORMATS: ExportFormat[] = [
+  {
+    label: "CSV — sessions",
+    detail: "One row per tracked session",
+    extension: "csv",
+    filterName: "CSV",
+    render: (entries, labels, _range, config) =>
+      toSessionCsv(entries, labels, config),
+  },
+  {
+    label: "CSV — daily totals",
+    detail: "One row per day, repository and branch",
+    extension: "csv",
+    filterName: "CSV",
+    render: (entries, labels, range, config) =>
+      toDailyCsv(entries, labels, config, range),
+  },
+  {
+    label: "CSV — issue totals",
+    detail: "One row per issue key found in branch names, across branches",
+    extension: "csv",
+    filterName: "CSV",
+    render: (entries, labels, _range, config) =>
+      toIssueCsv(entries, labels, config.issueKeyPatterns),
+  },
+  {
+    label: "CSV — file totals",
+    detail: "One row per file worked on, per branch, with its language",
+    extension: "csv",
+    filterName: "CSV",
+    render: (entries, labels, _range, config) =>
+      toFileCsv(entries, labels, config.fileExclusions),
+  },
+  {
+    label: "JSON",
+    detail: "All session fields, can be imported into another installation",
+    extension: "json",
+    filterName: "JSON",
+    render: (entries, _labels, range) => toJson(entries, range),
+  },
+  {
+    label: "iCalendar (.ics)",
+    detail: "One calendar event per session",
+    extension: "ics",
+    filterName: "iCalendar",
+    render: (entries, labels) => toICalendar(entries, labels),
+  },
+];
+
+/**
+ * Walks the user through choosing a date range, repositories, branches and
+ * a format, then writes the matching sessions to a file.
+ */
+export class TimeDataExporter {
+  constructor(private readonly tracker: GitBranchTimeTracker) {}
+
+  public async run() {
+    const allEntries = this.tracker.getTimeData();
+    if (allEntries.length === 0) {
+      vscode.window.showInformationMessage("There is no time data to export.");
+      return;
+    }
+
+    const range = await this.pickDateRange();
+    if (!range) {
+      return;
+    }
+
+    // A session is in range if any part of it falls on a day in the range
+    const config = this.tracker.getConfig();
+    const inRange = allEntries.filter((entry) =>
+      splitByDay(entry.startTime, entry.endTime, config).some(
+        ({ date }) =>
+          (!range.from || date >= range.from) && (!range.to || date <= range.to)
+      )
+    );
+    if (inRange.length === 0) {
+      vscode.window.showInformationMessage(
+        "No sessions were tracked in the selected date range."
+      );
+      return;
+    }
+
+    const labels = this.tracker.getRepositoryLabels();
+    const repositories = await this.pickRepositories(inRange, labels);
+    if (!repositories) {
+      return;
+    }
+
+    const inRepositories = inRange.filter((entry) =>
+      repositories.has(entry.repository)
+    );
+    const branches = await this.pickBranches(inRepositories, labels);
+    if (!branches) {
+      return;
+    }
+
+    const entries = inRepositories
+      .filter((entry) => branches.has(`${entry.repository}|${entry.branch}`))
+      .sort((a, b) => a.startTime - b.startTime);
+    await this.save(entries, range);
+  }
+
+  /** Asks for a format and a file, then writes `entries` to it. */
+  public async save(entries: TimeEntry[], range: DateRange = NO_RANGE) {
+    const config = this.tracker.getConfig();
+    const labels = this.tracker.getRepositoryLabels();
+    const format = await vscode.window.showQuickPick(EXPORT_FORMATS, {
+      placeHolder: `Export ${entries.length} sessions as`,
+    });
+    if (!format) {
+      return;
+    }
+
+    const fileName = `git-branch-time-${range.from || "start"}-to-${
+      range.to || getEntryDate(Date.now(), config)
+    }.${format.extension}`;
+    const defaultFolder = vscode.workspace.workspaceFolders?.[0]?.uri;
+    const target = await vscode.window.showSaveDialog({
+      defaultUri: defaultFolder
+        ? vscode.Uri.joinPath(defaultFolder, fileName)
+        : undefined,
+      filters: { [format.filterName]: [format.extension] },
+      saveLabel: "Export",
+    });
+    if (!target) {
+      return;
+    }
+
+    try {
+      await fs.promises.writeFile(
+        target.fsPath,
+        format.render(entries, labels, range, config),
+        "utf8"
+      );
+    } catch (error: any) {
+      vscode.window.showErrorMessage(
+        `Failed to export time data: ${error.message || error}`
+      );
+      return;
+    }
+
+    const selection = await vscode.window.showInformationMessage(
+      `Exported ${entries.length} sessions to ${target.fsPath}.`,
+      "Open File"
+    );
+    if (selection === "Open File") {
+      vscode.window.showTextDocument(target);
+    }
+  }
+
+  private async pickDateRange(): Promise<DateRange | undefined> {
+    // "Today" as the tracker books it, honouring the time zone and day start
+    const [year, month, day] = getEntryDate(
+      Date.now(),
+      this.tracker.getConfig()
+    )
+      .split("-")
+      .map(Number);
+    const today = new Date(year, month - 1, day);
+    const thisWeek = startOfWeek(today);
+    const thisMonth = new Date(today.getFullYear(), today.getMonth(), 1);
+    const lastMonth = new Date(today.getFullYear(), today.getMonth() - 1, 1);
+
+    const presets: (vscode.QuickPickItem & { range?: DateRange })[] = [
+      {
+        label: "This week",
+        range: { from: toDateKey(thisWeek), to: toDateKey(today) },
+      },
+      {
+        label: "Last week",
+        range: {
+          from: toDateKey(addDays(thisWeek, -7)),
+          to: toDateKey(addDays(thisWeek, -1)),
+        },
+      },
+      {
+        label: "This month",
+        range: { from: toDateKey(thisMonth), to: toDateKey(today) },
+      },
+      {
+        label: "Last month",
+        range: {
+          from: toDateKey(lastMonth),
+          to: toDateKey(addDays(thisMonth, -1)),
+        },
+      },
+      { label: "All time", range: { from: null, to: null } },
+      { label: "Custom range…" },
+    ];
+    presets.forEach((preset) => {
+      if (preset.range?.from) {
+        preset.description = `${preset.range.from} – ${preset.range.to}`;
+      }
+    });
+
+    const preset = await vscode.window.showQuickPick(presets, {
+      placeHolder: "Date range to export",
+    });
+    if (!preset) {
+      return undefined;
+    }
+    if (preset.range) {
+      return preset.range;
+    }
+
+    const validateInput = (value: string) =>
+      isDateKey(value) ? undefined : "Enter a date as YYYY-MM-DD";
+    const from = await vscode.window.showInputBox({
+      prompt: "First day to export (inclusive)",
+      placeHolder: "YYYY-MM-DD",
+      value: toDateKey(thisWeek),
+      validateInput,
+    });
+    if (!from) {
+      return undefined;
+    }
+    const to = await vscode.window.showInputBox({
+      prompt: "Last day to export (inclusive)",
+      placeHolder: "YYYY-MM-DD",
+      value: toDateKey(today),
+      validateInput: (value) =>
+        validateInput(value) ||
+        (value < from
+          ? "The last day must not be before the first"
+          : undefined),
+    });
+    if (!to) {
+      return undefined;
+    }
+
+    return { from, to };
+  }
+
+  private async pickRepositories(
+    entries: TimeEntry[],
+    labels: { [repository: string]: string }
+  ): Promise<Set<string> | undefined> {
+    const repositories = Array.from(
+      new Set(entries.map((entry) => entry.repository))
+    );
+    if (repositories.length === 1) {
+      return new Set(repositories);
+    }
+
+    const picked = await vscode.window.showQuickPick(
+      repositories.map((repository) => ({
+        label: labels[repository] || repository,
+        description: repository,
+        picked: true,
+        repository,
+      })),
+      { canPickMany: true, placeHolder: "Repositories to export" }
+    );
+    if (!picked || picked.length === 0) {
+      return undefined;
+    }
+    return new Set(picked.map((item) => item.repository));
+  }
+
+  private async pickBranches(
+    entries: TimeEntry[],
+    labels: { [repository: string]: string }
+  ): Promise<Set<string> | undefined> {
+    const branches = new Map<string, TimeEntry>();
+    entries.forEach((entry) =>
+      branches.set(`${entry.repository}|${entry.branch}`, entry)
+    );
+    if (branches.size === 1) {
+      return new Set(branches.keys());
+    }
+
+    const picked = await vscode.window.showQuickPick(
+      Array.from(branches.entries()).map(([key, entry]) => ({
+        label: entry.branch,
+        description: labels[entry.repository] || entry.repository,
+        picked: true,
+        key,
+      })),
+      {
+        canPickMany: true,
+        placeHolder: "Branches to export",
+        matchOnDescription: true,
+      }
+    );
+    if (!picked || picked.length === 0) {
+      return undefined;
+    }
+    return new Set(picked.map((item) => item.key));
+  }
+}
@@ -0,0 +1,138 @@
+import * as vscode from "vscode";
+import * as fs from "fs";
+import * as path from "path";
+import { TimeEntry, MergeResult } from "../interfaces/time-tracker";
+import { GitBranchTimeTracker } from "./time-tracker-service";
+import { parseImportFile, ParsedImport } from "../utils/import-formats";
+import { formatDuration } from "../utils/format";
+
+/**
+ * Imports sessions exported from another installation, or a timesheet CSV,
+ * and merges them into the tracker's store.
+ */
+export class TimeDataImporter {
+  constructor(private readonly tracker: GitBranchTimeTracker) {}
+
+  public async run(): Promise<boolean> {
+    const files = await vscode.window.showOpenDialog({
+      canSelectMany: false,
+      filters: {
+        "Time data": ["json", "ndjson", "csv"],
+      },
+      openLabel: "Import",
+    });
+    if (!files || files.length === 0) {
+      return false;
+    }
+
+    const file = files[0];
+    let parsed: ParsedImport;
+    try {
+      const text = await fs.promises.readFile(file.fsPath, "utf8");
+      parsed = parseImportFile(file.fsPath, text, this.tracker.getConfig());
+    } catch (error) {
+      vscode.window.showErrorMessage(
+        `Could not read ${path.basename(file.fsPath)}: ${
+          error instanceof Error ? error.message : String(error)
+        }`
+      );
+      return false;
+    }
+
+    if (parsed.entries.length === 0) {
+      vscode.window.showWarningMessage(
+        `No sessions found in ${path.basename(file.fsPath)}.`
+      );
+      return false;
+    }
+
+    const result = await this.tracker.importEntries(
+      this.resolveRepositoryNames(parsed.entries)
+    );
+    if (!result) {
+      vscode.window.showErrorMessage(
+        "Failed to save the imported sessions. See the log for details."
+      );
+      return false;
+    }
+
+    this.showSummary(result, parsed.invalid);
+    return result.added.length > 0;
+  }
+
+  /**
+   * Timesheets often name a repository without its remote. Such entries are
+   * booked to the tracked repository of that name, if there is exactly one.
+   */
+  private resolveRepositoryNames(entries: TimeEntry[]): TimeEntry[] {
+    const idsByName = new Map<string, Set<string>>();
+    this.tracker.getTimeData().forEach((entry) => {
+      if (entry.repositoryName) {
+        const ids = idsByName.get(entry.repositoryName) || new Set<string>();
+        ids.add(entry.repository);
+        idsByName.set(entry.repositoryName, ids);
+      }
+    });
+
+    return entries.map((entry) => {
+      const ids = idsByName.get(entry.repository);
+      if (entry.repository !== entry.repositoryName || !ids || ids.size !== 1) {
+        return entry;
+      }
+      return { ...entry, repository: Array.from(ids)[0] };
+    });
+  }
+
+  private async showSummary(result: MergeResult, invalid: number) {
+    const total = result.added.reduce((sum, entry) => sum + entry.duration, 0);
+    const parts = [
+      `Imported ${result.added.length} sessions (${formatDuration(total)})`,
+    ];
+    if (result.duplicates > 0) {
+      parts.push(`skipped ${result.duplicates} already tracked`);
+    }
+    if (result.conflicts.length > 0) {
+      parts.push(`trimmed ${result.conflicts.length} overlapping`);
+    }
+    if (invalid > 0) {
+      parts.push(`ignored ${invalid} unreadable rows`);
+    }
+
+    const actions = result.conflicts.length > 0 ? ["Show Conflicts"] : [];
+    const selection = await vscode.window.showInformationMessage(
+      `${parts.join(", ")}.`,
+      ...actions
+    );
+    if (selection === "Show Conflicts") {
+      this.showConflicts(result);
+    }
+  }
+
+  private async showConflicts(result: MergeResult) {
+    const time = (timestamp: number) => new Date(timestamp).toLocaleString();
+    const lines = [
+      "# Import conflicts",
+      "",
+      "These imported sessions overlapped sessions already tracked on the same repository and branch. Only the parts that did not overlap were imported.",
+      "",
+      "| Repository | Branch | Imported session | Overlapped with | Imported time |",
+      "| --- | --- | --- | --- | --- |",
+      ...result.conflicts.map(
+        (conflict) =>
+          `| ${
+            conflict.imported.repositoryName || conflict.imported.repository
+          } | ${conflict.imported.branch} | ${time(
+            conflict.imported.startTime
+          )} – ${time(conflict.imported.endTime)} | ${conflict.existing
+            .map((entry) => `${time(entry.startTime)} – ${time(entry.endTime)}`)
+            .join("<br>")} | ${formatDuration(conflict.kept)} |`
+      ),
+    ];
+
+    const document = await vscode.workspace.openTextDocument({
+      language: "markdown",
+      content: lines.join("\n"),
+    });
+    vscode.window.showTextDocument(document);
+  }
+}
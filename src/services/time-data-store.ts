@@ -0,0 +1,780 @@
+import * as vscode from "vscode";
+import * as path from "path";
+import * as fs from "fs";
+import * as readline from "readline";
+import { TimeEntry, CorruptDataReport } from "../interfaces/time-tracker";
+import { SCHEMA_VERSION, parseEntry } from "../utils/time-entry-schema";
+
+// Pretty-printed array written by earlier versions, migrated on first load
+const LEGACY_DATA_FILE = "git-branch-time-data.json";
+const SNAPSHOT_FILE = "git-branch-time-snapshot.ndjson";
+const JOURNAL_FILE = "git-branch-time-journal.ndjson";
+const LOCK_FILE = "git-branch-time-data.lock";
+
+// Journals rotated away for compaction: `<JOURNAL_FILE>.<timestamp>-<pid>`
+const isRotatedJournal = (name: string): boolean =>
+  name.startsWith(`${JOURNAL_FILE}.`) &&
+  /^\d+-\d+$/.test(name.slice(JOURNAL_FILE.length + 1));
+
+// A lock older than this was left by a window that died while writing
+const STALE_LOCK_AGE = 30 * 1000;
+const LOCK_RETRY_DELAY = 50;
+const LOCK_MAX_WAIT = 10 * 1000;
+
+const COMPACT_THRESHOLD = 256 * 1024; // journal size in bytes
+const COMPACT_CHECK_INTERVAL = 10 * 60 * 1000;
+
+// First line of every snapshot and journal. Files without one predate
+// versioning and are read as version 0.
+interface FileHeader {
+  version: number;
+  // Snapshots only: rotated journals already folded into this snapshot.
+  // Listed so that a crash before they are deleted doesn't bring back
+  // removed entries.
+  consumedJournals?: string[];
+}
+
+interface ReadResult {
+  entries: TimeEntry[];
+  invalid: Map<string, number>; // file -> number of skipped records
+}
+
+// Identifies an entry across windows and recoveries
+export const entryKey = (entry: TimeEntry): string =>
+  `${entry.repository}|${entry.branch}|${entry.startTime}`;
+
+const sleep = (ms: number) =>
+  new Promise<void>((resolve) => setTimeout(resolve, ms));
+
+const parseLine = (line: string): any => {
+  try {
+    return JSON.parse(line);
+  } catch (error) {
+    return undefined;
+  }
+};
+
+// Entries always have a startTime; headers never do
+const isHeader = (record: any): boolean =>
+  !!record &&
+  typeof record === "object" &&
+  record.startTime === undefined &&
+  (typeof record.version === "number" ||
+    Array.isArray(record.consumedJournals));
+
+const countInvalid = (
+  invalid: Map<string, number>,
+  file: string,
+  count = 1
+) => {
+  if (count > 0) {
+    invalid.set(file, (invalid.get(file) || 0) + count);
+  }
+};
+
+const backupName = (file: string): string =>
+  `${file}.corrupt-${new Date().toISOString().replace(/[:.]/g, "-")}`;
+
+/**
+ * Stores sessions as a compact NDJSON snapshot plus an append-only NDJSON
+ * journal, shared by every open window:
+ *
+ * - new sessions are appended to the journal
+ * - bulk changes (reset, migrations) and periodic compaction rotate the
+ *   journal away, fold it into a new snapshot and rename that into place,
+ *   so readers never see a partial snapshot
+ * - appends and rotations both hold a lock file, so no append can land in
+ *   a journal that is being folded away
+ * - other windows' appends and compactions are picked up by watching the
+ *   storage directory
+ *
+ * All file access is asynchronous and serialized through `queue`.
+ *
+ * Every record is migrated to SCHEMA_VERSION and validated on read. Records
+ * that fail are skipped, the file holding them is backed up before the next
+ * compaction drops them, and onDidFindCorruptData is fired.
+ */
+export class TimeDataStore {
+  private entries: TimeEntry[] = [];
+  private keys = new Set<string>();
+  private journalOffset = 0;
+  private journalIno: number | null = null;
+  private journalVersion = SCHEMA_VERSION;
+  private newerVersionSeen = false;
+  private snapshotMtime: number | null = null;
+  private queue: Promise<unknown> = Promise.resolve();
+  private loaded: Promise<void> | null = null;
+  private watcher: fs.FSWatcher | null = null;
+  private reloadTimer: NodeJS.Timeout | null = null;
+  private compactTimer: NodeJS.Timeout | null = null;
+  private readonly onDidChangeEmitter = new vscode.EventEmitter<void>();
+  public readonly onDidChange = this.onDidChangeEmitter.event;
+  private readonly onDidFindCorruptDataEmitter =
+    new vscode.EventEmitter<CorruptDataReport>();
+  public readonly onDidFindCorruptData = this.onDidFindCorruptDataEmitter.event;
+
+  constructor(private readonly storagePath: string | undefined) {}
+
+  private file(name: string): string {
+    return path.join(this.storagePath as string, name);
+  }
+
+  public getEntries(): TimeEntry[] {
+    return this.entries;
+  }
+
+  /** Resolves once every queued write has been attempted. */
+  public whenIdle(): Promise<void> {
+    return this.queue.then(() => undefined);
+  }
+
+  private enqueue<T>(operation: () => Promise<T>): Promise<T> {
+    const result = this.queue.then(operation);
+    this.queue = result.catch(() => undefined);
+    return result;
+  }
+
+  public load(): Promise<void> {
+    if (!this.loaded) {
+      this.loaded = this.enqueue(async () => {
+        if (!this.storagePath) {
+          console.log("No global storage path available");
+          return;
+        }
+
+        try {
+          await fs.promises.mkdir(this.storagePath, { recursive: true });
+          await this.migrateLegacyFile();
+          await this.quarantineInvalid(await this.reloadAll());
+          console.log("Loaded time data:", this.entries.length, "entries");
+          this.onDidChangeEmitter.fire();
+        } catch (error) {
+          console.error("Failed to load time data:", error);
+        }
+      });
+    }
+    return this.loaded;
+  }
+
+  /** Adds entries that are not stored yet. */
+  public async append(entries: TimeEntry[]): Promise<boolean> {
+    await this.load();
+
+    return this.enqueue(async () => {
+      if (!this.storagePath) {
+        console.error("No global storage path available");
+        return false;
+      }
+
+      const added = entries.filter((entry) => !this.keys.has(entryKey(entry)));
+      if (added.length === 0) {
+        return true;
+      }
+
+      try {
+        await this.withLock(async () => {
+          const journalPath = this.file(JOURNAL_FILE);
+          await this.ensureJournalHeader(journalPath);
+          await fs.promises.appendFile(
+            journalPath,
+            ((await this.endsWithPartialLine(journalPath)) ? "\n" : "") +
+              added.map((entry) => JSON.stringify(entry) + "\n").join("")
+          );
+        });
+        this.addEntries(added);
+      } catch (error) {
+        console.error("Failed to save time data:", error);
+        return false;
+      }
+
+      if (await this.needsCompaction()) {
+        await this.compact();
+      }
+      return true;
+    });
+  }
+
+  /**
+   * Rewrites the snapshot with `mutate` applied to everything stored so far.
+   * `mutate` may see entries written by other windows, so it must describe
+   * the change rather than return a previously read list.
+   */
+  public async update(
+    mutate: (entries: TimeEntry[]) => TimeEntry[]
+  ): Promise<boolean> {
+    await this.load();
+    return this.enqueue(() => this.rewrite(mutate));
+  }
+
+  /** The body of update, for callers already running in `queue`. */
+  private async rewrite(
+    mutate: (entries: TimeEntry[]) => TimeEntry[]
+  ): Promise<boolean> {
+    if (!this.storagePath) {
+      console.error("No global storage path available");
+      return false;
+    }
+    if (this.newerVersionSeen) {
+      // Rewriting would drop fields this version doesn't know about
+      console.error(
+        "Time data was written by a newer version, not rewriting it"
+      );
+      return false;
+    }
+
+    try {
+      await this.withLock(async () => {
+        await this.rotateJournal();
+        // Includes the journal just rotated away
+        const { entries, consumed } = await this.readStored(false);
+        await this.writeSnapshot(mutate(entries), consumed);
+        await this.removeJournals(consumed);
+      });
+      await this.reloadAll();
+      return true;
+    } catch (error) {
+      console.error("Failed to update time data:", error);
+      return false;
+    }
+  }
+
+  /** Folds the journal into the snapshot; runs in `queue`. */
+  private compact(): Promise<boolean> {
+    console.log("Compacting time data");
+    return this.rewrite((entries) => entries);
+  }
+
+  private async needsCompaction(): Promise<boolean> {
+    try {
+      const { size } = await fs.promises.stat(this.file(JOURNAL_FILE));
+      return size > COMPACT_THRESHOLD;
+    } catch (error) {
+      // No journal, or another window is rotating it right now
+      return false;
+    }
+  }
+
+  private addEntries(entries: TimeEntry[]): number {
+    let added = 0;
+    entries.forEach((entry) => {
+      const key = entryKey(entry);
+      if (!this.keys.has(key)) {
+        this.keys.add(key);
+        this.entries.push(entry);
+        added++;
+      }
+    });
+    return added;
+  }
+
+  private async reloadAll(): Promise<Map<string, number>> {
+    const { entries, invalid } = await this.readStored(true);
+    this.entries = [];
+    this.keys.clear();
+    this.addEntries(entries);
+    return invalid;
+  }
+
+  private parseRecord(
+    line: string,
+    version: number,
+    file: string,
+    invalid: Map<string, number>
+  ): TimeEntry | null {
+    const entry = parseEntry(parseLine(line), version);
+    if (!entry) {
+      console.error("Skipping invalid time data record in", file, line);
+      countInvalid(invalid, file);
+    }
+    return entry;
+  }
+
+  private readHeader(record: any): FileHeader {
+    const header: FileHeader = {
+      version: typeof record.version === "number" ? record.version : 0,
+      consumedJournals: Array.isArray(record.consumedJournals)
+        ? record.consumedJournals
+        : [],
+    };
+    if (header.version > SCHEMA_VERSION) {
+      this.newerVersionSeen = true;
+    }
+    return header;
+  }
+
+  /**
+   * Reads the snapshot followed by any rotated journals a crashed compaction
+   * left behind, and, when `includeActive` is set, the active journal.
+   * Entries appended twice (by windows racing on the same session) are
+   * returned once.
+   */
+  private async readStored(
+    includeActive: boolean
+  ): Promise<ReadResult & { consumed: string[] }> {
+    const entries: TimeEntry[] = [];
+    const invalid = new Map<string, number>();
+    const snapshotPath = this.file(SNAPSHOT_FILE);
+    let header: FileHeader = { version: 0, consumedJournals: [] };
+
+    try {
+      const stat = await fs.promises.stat(snapshotPath);
+      this.snapshotMtime = stat.mtimeMs;
+
+      const lines = readline.createInterface({
+        input: fs.createReadStream(snapshotPath, { encoding: "utf8" }),
+        crlfDelay: Infinity,
+      });
+      let isFirst = true;
+      for await (const line of lines) {
+        if (!line.trim()) {
+          continue;
+        }
+        if (isFirst && isHeader(parseLine(line))) {
+          header = this.readHeader(parseLine(line));
+        } else {
+          const entry = this.parseRecord(
+            line,
+            header.version,
+            snapshotPath,
+            invalid
+          );
+          if (entry) {
+            entries.push(entry);
+          }
+        }
+        isFirst = false;
+      }
+    } catch (error: any) {
+      if (error.code !== "ENOENT") {
+        throw error;
+      }
+      this.snapshotMtime = null;
+    }
+
+    const names = await fs.promises.readdir(this.storagePath as string);
+    const consumed: string[] = [];
+
+    for (const name of names.sort()) {
+      if (!isRotatedJournal(name)) {
+        continue;
+      }
+      consumed.push(name);
+      if (!header.consumedJournals?.includes(name)) {
+        const journal = await this.readJournal(this.file(name), 0);
+        entries.push(...journal.entries);
+        countInvalid(invalid, this.file(name), journal.invalid);
+      }
+    }
+
+    if (includeActive) {
+      const journal = await this.readJournal(this.file(JOURNAL_FILE), 0);
+      entries.push(...journal.entries);
+      countInvalid(invalid, this.file(JOURNAL_FILE), journal.invalid);
+      this.journalOffset = journal.end;
+      this.journalIno = journal.ino;
+      this.journalVersion = journal.version;
+    }
+
+    const seen = new Set<string>();
+    return {
+      entries: entries.filter((entry) => {
+        const key = entryKey(entry);
+        if (seen.has(key)) {
+          return false;
+        }
+        seen.add(key);
+        return true;
+      }),
+      invalid,
+      consumed,
+    };
+  }
+
+  /**
+   * Reads complete lines of a journal from `start`. A trailing partial line
+   * (an append in progress in another window) is left for the next read.
+   * `version` applies when reading from the middle, past the header.
+   */
+  private async readJournal(
+    file: string,
+    start: number,
+    version = SCHEMA_VERSION
+  ): Promise<{
+    entries: TimeEntry[];
+    invalid: number;
+    end: number;
+    ino: number | null;
+    version: number;
+  }> {
+    let handle: fs.promises.FileHandle;
+    try {
+      handle = await fs.promises.open(file, "r");
+    } catch (error: any) {
+      if (error.code === "ENOENT") {
+        return { entries: [], invalid: 0, end: 0, ino: null, version };
+      }
+      throw error;
+    }
+
+    try {
+      const { size, ino } = await handle.stat();
+      if (size <= start) {
+        return { entries: [], invalid: 0, end: size, ino, version };
+      }
+
+      const buffer = Buffer.alloc(size - start);
+      await handle.read(buffer, 0, buffer.length, start);
+      const lastNewline = buffer.lastIndexOf(0x0a);
+      if (lastNewline === -1) {
+        return { entries: [], invalid: 0, end: start, ino, version };
+      }
+
+      const lines = buffer
+        .toString("utf8", 0, lastNewline)
+        .split("\n")
+        .filter((line) => line.trim());
+
+      if (start === 0) {
+        const first = parseLine(lines[0]);
+        if (isHeader(first)) {
+          version = this.readHeader(first).version;
+          lines.shift();
+        } else {
+          version = 0;
+        }
+      }
+
+      const invalid = new Map<string, number>();
+      const entries = lines
+        .map((line) => this.parseRecord(line, version, file, invalid))
+        .filter((entry): entry is TimeEntry => entry !== null);
+      return {
+        entries,
+        invalid: invalid.get(file) || 0,
+        end: start + lastNewline + 1,
+        ino,
+        version,
+      };
+    } finally {
+      await handle.close();
+    }
+  }
+
+  private async ensureJournalHeader(journalPath: string) {
+    const header: FileHeader = { version: SCHEMA_VERSION };
+    try {
+      await fs.promises.writeFile(journalPath, JSON.stringify(header) + "\n", {
+        flag: "wx",
+      });
+    } catch (error: any) {
+      if (error.code !== "EEXIST") {
+        throw error;
+      }
+    }
+  }
+
+  /**
+   * Appends are single small writes, so a journal that doesn't end in a
+   * newline was cut off by a crash. Starting a fresh line keeps the next
+   * record from being glued onto the broken one.
+   */
+  private async endsWithPartialLine(journalPath: string): Promise<boolean> {
+    let handle: fs.promises.FileHandle;
+    try {
+      handle = await fs.promises.open(journalPath, "r");
+    } catch (error: any) {
+      // Rotated by another window since we wrote the header
+      if (error.code === "ENOENT") {
+        return false;
+      }
+      throw error;
+    }
+
+    try {
+      const { size } = await handle.stat();
+      if (size === 0) {
+        return false;
+      }
+      const last = Buffer.alloc(1);
+      await handle.read(last, 0, 1, size - 1);
+      return last[0] !== 0x0a;
+    } finally {
+      await handle.close();
+    }
+  }
+
+  /**
+   * Backs up files that contained invalid records and compacts, which
+   * rewrites the snapshot without them.
+   */
+  private async quarantineInvalid(invalid: Map<string, number>) {
+    if (invalid.size === 0) {
+      return;
+    }
+
+    for (const [file, count] of invalid) {
+      const backupPath = backupName(file);
+      try {
+        await fs.promises.copyFile(file, backupPath);
+      } catch (error) {
+        console.error("Failed to back up corrupt time data:", file, error);
+        continue;
+      }
+      console.log("Backed up", file, "with", count, "invalid records");
+      this.onDidFindCorruptDataEmitter.fire({
+        file,
+        backupPath,
+        invalidEntries: count,
+      });
+    }
+
+    await this.compact();
+  }
+
+  // Runs under the lock, so no append from any window is in flight
+  private async rotateJournal() {
+    const rotated = `${JOURNAL_FILE}.${Date.now()}-${process.pid}`;
+    try {
+      await fs.promises.rename(this.file(JOURNAL_FILE), this.file(rotated));
+    } catch (error: any) {
+      if (error.code === "ENOENT") {
+        return;
+      }
+      throw error;
+    }
+  }
+
+  private async writeSnapshot(entries: TimeEntry[], consumed: string[]) {
+    const snapshotPath = this.file(SNAPSHOT_FILE);
+    const tempPath = `${snapshotPath}.${process.pid}.${Date.now()}.tmp`;
+
+    const header: FileHeader = {
+      version: SCHEMA_VERSION,
+      consumedJournals: consumed,
+    };
+    const stream = fs.createWriteStream(tempPath, { encoding: "utf8" });
+    const finished = new Promise<void>((resolve, reject) => {
+      stream.on("finish", resolve);
+      stream.on("error", reject);
+    });
+
+    stream.write(JSON.stringify(header) + "\n");
+    for (const entry of entries) {
+      if (!stream.write(JSON.stringify(entry) + "\n")) {
+        await new Promise((resolve) => stream.once("drain", resolve));
+      }
+    }
+    stream.end();
+    await finished;
+
+    await fs.promises.rename(tempPath, snapshotPath);
+  }
+
+  private async removeJournals(names: string[]) {
+    for (const name of names) {
+      try {
+        await fs.promises.unlink(this.file(name));
+      } catch (error: any) {
+        if (error.code !== "ENOENT") {
+          console.error("Failed to remove compacted journal:", name, error);
+        }
+      }
+    }
+  }
+
+  private async migrateLegacyFile() {
+    const legacyPath = this.file(LEGACY_DATA_FILE);
+    if (!fs.existsSync(legacyPath) || fs.existsSync(this.file(SNAPSHOT_FILE))) {
+      return;
+    }
+
+    await this.withLock(async () => {
+      // Another window may have migrated while we waited for the lock
+      if (!fs.existsSync(legacyPath)) {
+        return;
+      }
+
+      const migratedPath = `${legacyPath}.migrated`;
+      let records: unknown;
+      try {
+        records = JSON.parse(await fs.promises.readFile(legacyPath, "utf8"));
+      } catch (error) {
+        records = undefined;
+      }
+
+      if (!Array.isArray(records)) {
+        // Move it aside rather than let the next write replace it
+        const backupPath = backupName(legacyPath);
+        await fs.promises.rename(legacyPath, backupPath);
+        console.error("Legacy time data is unreadable, moved to", backupPath);
+        this.onDidFindCorruptDataEmitter.fire({
+          file: legacyPath,
+          backupPath,
+          invalidEntries: -1,
+        });
+        return;
+      }
+
+      const entries = records
+        .map((record) => parseEntry(record, 0))
+        .filter((entry): entry is TimeEntry => entry !== null);
+      await this.writeSnapshot(entries, []);
+      await fs.promises.rename(legacyPath, migratedPath);
+      console.log("Migrated", entries.length, "entries to the journal format");
+
+      if (entries.length < records.length) {
+        this.onDidFindCorruptDataEmitter.fire({
+          file: legacyPath,
+          backupPath: migratedPath,
+          invalidEntries: records.length - entries.length,
+        });
+      }
+    });
+  }
+
+  private async withLock<T>(action: () => Promise<T>): Promise<T> {
+    const lockPath = this.file(LOCK_FILE);
+    const deadline = Date.now() + LOCK_MAX_WAIT;
+
+    for (;;) {
+      try {
+        await (await fs.promises.open(lockPath, "wx")).close();
+        break;
+      } catch (error: any) {
+        if (error.code !== "EEXIST") {
+          throw error;
+        }
+
+        try {
+          const { mtimeMs } = await fs.promises.stat(lockPath);
+          if (Date.now() - mtimeMs > STALE_LOCK_AGE) {
+            console.log("Removing stale time data lock");
+            await fs.promises.unlink(lockPath);
+            continue;
+          }
+        } catch (statError) {
+          // Released between our open and stat, just try again
+          continue;
+        }
+
+        if (Date.now() > deadline) {
+          throw new Error("Timed out waiting for the time data lock");
+        }
+        await sleep(LOCK_RETRY_DELAY);
+      }
+    }
+
+    try {
+      return await action();
+    } finally {
+      try {
+        await fs.promises.unlink(lockPath);
+      } catch (error) {
+        console.error("Failed to release time data lock:", error);
+      }
+    }
+  }
+
+  /**
+   * Picks up other windows' writes and compacts the journal periodically.
+   */
+  public watch() {
+    if (!this.storagePath || this.watcher) {
+      return;
+    }
+
+    this.compactTimer = setInterval(
+      () =>
+        this.enqueue(async () => {
+          if (await this.needsCompaction()) {
+            await this.compact();
+          }
+        }),
+      COMPACT_CHECK_INTERVAL
+    );
+
+    try {
+      fs.mkdirSync(this.storagePath, { recursive: true });
+      this.watcher = fs.watch(this.storagePath, (_event, filename) => {
+        const name = filename?.toString();
+        if (name === JOURNAL_FILE || name === SNAPSHOT_FILE) {
+          this.scheduleReload();
+        }
+      });
+      this.watcher.on("error", (error) => {
+        console.error("Time data watcher failed:", error);
+        this.watcher = null;
+      });
+    } catch (error) {
+      console.error("Could not watch time data:", error);
+    }
+  }
+
+  private scheduleReload() {
+    if (this.reloadTimer) {
+      clearTimeout(this.reloadTimer);
+    }
+
+    this.reloadTimer = setTimeout(() => {
+      this.reloadTimer = null;
+      this.enqueue(() => this.refreshFromDisk()).catch((error) =>
+        console.error("Failed to reload time data:", error)
+      );
+    }, 200);
+  }
+
+  private async refreshFromDisk() {
+    let snapshotMtime: number | null = null;
+    try {
+      snapshotMtime = (await fs.promises.stat(this.file(SNAPSHOT_FILE)))
+        .mtimeMs;
+    } catch (error) {
+      // No snapshot yet
+    }
+
+    if (snapshotMtime !== this.snapshotMtime) {
+      // Compacted or rewritten, possibly with removals
+      const invalid = await this.reloadAll();
+      console.log("Time data rewritten on disk:", this.entries.length);
+      this.onDidChangeEmitter.fire();
+      await this.quarantineInvalid(invalid);
+      return;
+    }
+
+    const journalPath = this.file(JOURNAL_FILE);
+    let journal = await this.readJournal(
+      journalPath,
+      this.journalOffset,
+      this.journalVersion
+    );
+    if (journal.ino !== this.journalIno || journal.end < this.journalOffset) {
+      // The journal was rotated since we last read it
+      journal = await this.readJournal(journalPath, 0);
+    }
+    this.journalOffset = journal.end;
+    this.journalIno = journal.ino;
+    this.journalVersion = journal.version;
+
+    const invalid = new Map<string, number>();
+    countInvalid(invalid, journalPath, journal.invalid);
+    await this.quarantineInvalid(invalid);
+
+    if (this.addEntries(journal.entries) > 0) {
+      console.log("Time data appended on disk:", this.entries.length);
+      this.onDidChangeEmitter.fire();
+    }
+  }
+
+  public dispose() {
+    this.watcher?.close();
+    this.watcher = null;
+    if (this.reloadTimer) {
+      clearTimeout(this.reloadTimer);
+    }
+    if (this.compactTimer) {
+      clearInterval(this.compactTimer);
+    }
+    this.onDidChangeEmitter.dispose();
+    this.onDidFindCorruptDataEmitter.dispose();
+  }
+}
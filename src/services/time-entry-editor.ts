@@ -0,0 +1,440 @@
+import * as vscode from "vscode";
+import { TimeEntry } from "../interfaces/time-tracker";
+import { GitBranchTimeTracker } from "./time-tracker-service";
+import { getCurrentRepository } from "../utils/git-utils";
+import { formatDateTime, parseDateTime } from "../utils/date-utils";
+import { formatDuration } from "../utils/format";
+import {
+  EntryFields,
+  createManualEntry,
+  editEntry,
+  splitEntry,
+  mergeEntries,
+} from "../utils/entry-edit";
+
+type RepositoryItem = vscode.QuickPickItem & {
+  repository: string;
+  repositoryName?: string;
+};
+
+type EntryAction = "edit" | "split" | "merge" | "delete";
+
+/**
+ * Quick-pick flows for correcting tracked time by hand: adding sessions
+ * that were never tracked, and editing, splitting, merging or deleting
+ * existing ones. Every change is saved as a `manual` entry.
+ */
+export class TimeEntryEditor {
+  constructor(private readonly tracker: GitBranchTimeTracker) {}
+
+  public async add(): Promise<boolean> {
+    const active = this.tracker.getActiveSession();
+    const now = Date.now();
+    const fields = await this.inputFields("Add Time Entry", {
+      repository: active?.repository || "",
+      repositoryName: active?.repositoryName,
+      branch: active?.branch || "",
+      startTime: now - 60 * 60 * 1000,
+      endTime: now,
+    });
+    if (!fields) {
+      return false;
+    }
+
+    const entry = createManualEntry(fields, this.tracker.getConfig());
+    if (!(await this.confirmOverlaps(entry, []))) {
+      return false;
+    }
+    return this.save([], [entry], `Added ${formatDuration(entry.duration)}.`);
+  }
+
+  public async edit(): Promise<boolean> {
+    // Sessions still in the batch would otherwise be missing from the list
+    await this.tracker.flushPendingEntries();
+
+    const entry = await this.pickEntry();
+    if (!entry) {
+      return false;
+    }
+
+    const actions: (vscode.QuickPickItem & { action: EntryAction })[] = [
+      {
+        label: "$(edit) Edit",
+        description: "Change repository, branch, start or end",
+        action: "edit",
+      },
+      {
+        label: "$(split-horizontal) Split",
+        description: "Divide into two sessions at a given time",
+        action: "split",
+      },
+      {
+        label: "$(git-merge) Merge",
+        description: "Join with the previous or next session on this branch",
+        action: "merge",
+      },
+      { label: "$(trash) Delete", action: "delete" },
+    ];
+    const selected = await vscode.window.showQuickPick(actions, {
+      placeHolder: `Session ${this.describe(entry)}`,
+    });
+
+    switch (selected?.action) {
+      case "edit":
+        return this.editFields(entry);
+      case "split":
+        return this.split(entry);
+      case "merge":
+        return this.merge(entry);
+      case "delete":
+        return this.delete(entry);
+      default:
+        return false;
+    }
+  }
+
+  private async editFields(entry: TimeEntry): Promise<boolean> {
+    const fields = await this.inputFields("Edit Time Entry", entry);
+    if (!fields) {
+      return false;
+    }
+
+    const edited = editEntry(entry, fields, this.tracker.getConfig());
+    if (!(await this.confirmOverlaps(edited, [entry]))) {
+      return false;
+    }
+    return this.save([entry], [edited], "Session updated.");
+  }
+
+  private async split(entry: TimeEntry): Promise<boolean> {
+    const { timeZone } = this.tracker.getConfig();
+    const text = await vscode.window.showInputBox({
+      title: "Split Time Entry",
+      prompt: "Time at which the second session starts",
+      placeHolder: "YYYY-MM-DD HH:MM",
+      value: formatDateTime(
+        Math.round((entry.startTime + entry.endTime) / 2),
+        timeZone
+      ),
+      validateInput: (value) => {
+        const at = parseDateTime(value, timeZone);
+        if (at === null) {
+          return "Enter a time as YYYY-MM-DD HH:MM";
+        }
+        return at > entry.startTime && at < entry.endTime
+          ? undefined
+          : "The time must fall inside the session";
+      },
+    });
+    if (!text) {
+      return false;
+    }
+
+    const branch = await vscode.window.showInputBox({
+      title: "Split Time Entry",
+      prompt: "Branch for the second session",
+      value: entry.branch,
+      validateInput: (value) =>
+        value.trim() ? undefined : "Enter a branch name",
+    });
+    if (!branch) {
+      return false;
+    }
+
+    const parts = splitEntry(
+      entry,
+      parseDateTime(text, timeZone) as number,
+      branch.trim(),
+      this.tracker.getConfig()
+    );
+    return this.save([entry], parts, "Session split in two.");
+  }
+
+  private async merge(entry: TimeEntry): Promise<boolean> {
+    const sameBranch = this.tracker
+      .getTimeData()
+      .filter(
+        (other) =>
+          other.repository === entry.repository && other.branch === entry.branch
+      )
+      .sort((a, b) => a.startTime - b.startTime);
+    const index = sameBranch.findIndex(
+      (other) => other.startTime === entry.startTime
+    );
+    const previous = sameBranch[index - 1];
+    const next = sameBranch[index + 1];
+
+    const options: (vscode.QuickPickItem & { entries: TimeEntry[] })[] = [];
+    if (previous) {
+      options.push({
+        label: "Previous session",
+        description: this.describe(previous),
+        entries: [previous, entry],
+      });
+    }
+    if (next) {
+      options.push({
+        label: "Next session",
+        description: this.describe(next),
+        entries: [entry, next],
+      });
+    }
+    if (previous && next) {
+      options.push({
+        label: "Both",
+        entries: [previous, entry, next],
+      });
+    }
+    if (options.length === 0) {
+      vscode.window.showInformationMessage(
+        "There is no other session on this branch to merge with."
+      );
+      return false;
+    }
+
+    const selected = await vscode.window.showQuickPick(options, {
+      placeHolder: "Merge with",
+    });
+    if (!selected) {
+      return false;
+    }
+
+    const merged = mergeEntries(selected.entries, this.tracker.getConfig());
+    return this.save(
+      selected.entries,
+      [merged],
+      `Merged ${selected.entries.length} sessions.`
+    );
+  }
+
+  private async delete(entry: TimeEntry): Promise<boolean> {
+    const selection = await vscode.window.showWarningMessage(
+      `Delete the session ${this.describe(entry)}?`,
+      { modal: true },
+      "Delete"
+    );
+    if (selection !== "Delete") {
+      return false;
+    }
+    return this.save([entry], [], "Session deleted.");
+  }
+
+  private async pickEntry(): Promise<TimeEntry | undefined> {
+    const entries = this.tracker
+      .getTimeData()
+      .sort((a, b) => b.startTime - a.startTime);
+    if (entries.length === 0) {
+      vscode.window.showInformationMessage("There are no sessions to edit.");
+      return undefined;
+    }
+
+    const labels = this.tracker.getRepositoryLabels();
+    const { timeZone } = this.tracker.getConfig();
+    const selected = await vscode.window.showQuickPick(
+      entries.map((entry) => ({
+        label: entry.branch,
+        description: `${formatDateTime(
+          entry.startTime,
+          timeZone
+        )} – ${formatDateTime(entry.endTime, timeZone).slice(11)}`,
+        detail: `${
+          labels[entry.repository] || entry.repository
+        } · ${formatDuration(entry.duration)}${
+          entry.manual ? " · manual" : ""
+        }`,
+        entry,
+      })),
+      {
+        placeHolder: "Session to change",
+        matchOnDescription: true,
+        matchOnDetail: true,
+      }
+    );
+    return selected?.entry;
+  }
+
+  /** Asks for repository, branch, start and end, starting from `initial`. */
+  private async inputFields(
+    title: string,
+    initial: EntryFields
+  ): Promise<EntryFields | undefined> {
+    const repository = await this.pickRepository(title, initial.repository);
+    if (!repository) {
+      return undefined;
+    }
+
+    const branch = await vscode.window.showInputBox({
+      title,
+      prompt: "Branch",
+      value: initial.branch,
+      validateInput: (value) =>
+        value.trim() ? undefined : "Enter a branch name",
+    });
+    if (!branch) {
+      return undefined;
+    }
+
+    const { timeZone } = this.tracker.getConfig();
+    const parse = (value: string) => parseDateTime(value, timeZone);
+    const startText = await vscode.window.showInputBox({
+      title,
+      prompt: "Start",
+      placeHolder: "YYYY-MM-DD HH:MM",
+      value: formatDateTime(initial.startTime, timeZone),
+      validateInput: (value) =>
+        parse(value) === null ? "Enter a time as YYYY-MM-DD HH:MM" : undefined,
+    });
+    if (!startText) {
+      return undefined;
+    }
+    const startTime = parse(startText) as number;
+
+    const endText = await vscode.window.showInputBox({
+      title,
+      prompt: "End",
+      placeHolder: "YYYY-MM-DD HH:MM",
+      value: formatDateTime(Math.max(initial.endTime, startTime), timeZone),
+      validateInput: (value) => {
+        const endTime = parse(value);
+        if (endTime === null) {
+          return "Enter a time as YYYY-MM-DD HH:MM";
+        }
+        if (endTime <= startTime) {
+          return "The end must be after the start";
+        }
+        return endTime > Date.now()
+          ? "The session cannot end in the future"
+          : undefined;
+      },
+    });
+    if (!endText) {
+      return undefined;
+    }
+
+    return {
+      repository: repository.repository,
+      repositoryName: repository.repositoryName,
+      branch: branch.trim(),
+      startTime,
+      endTime: parse(endText) as number,
+    };
+  }
+
+  /** Tracked repositories plus those open in the workspace. */
+  private async pickRepository(
+    title: string,
+    current: string
+  ): Promise<RepositoryItem | undefined> {
+    const labels = this.tracker.getRepositoryLabels();
+    const items = new Map<string, RepositoryItem>();
+    Object.entries(labels).forEach(([repository, label]) => {
+      const entry = this.tracker
+        .getTimeData()
+        .find((other) => other.repository === repository);
+      items.set(repository, {
+        label,
+        description: repository,
+        repository,
+        repositoryName: entry?.repositoryName,
+      });
+    });
+
+    const folders = vscode.workspace.workspaceFolders || [];
+    const repositories = await Promise.all(
+      folders.map((folder) => getCurrentRepository(folder.uri.fsPath))
+    );
+    repositories.forEach((info) => {
+      if (info && !items.has(info.id)) {
+        items.set(info.id, {
+          label: info.name,
+          description: info.id,
+          repository: info.id,
+          repositoryName: info.name,
+        });
+      }
+    });
+
+    if (items.size === 0) {
+      vscode.window.showInformationMessage(
+        "Open a Git repository to add time to it."
+      );
+      return undefined;
+    }
+
+    // Put the entry's own repository first so Enter keeps it
+    const sorted = Array.from(items.values()).sort(
+      (a, b) =>
+        Number(b.repository === current) - Number(a.repository === current) ||
+        a.label.localeCompare(b.label)
+    );
+    return vscode.window.showQuickPick(sorted, {
+      title,
+      placeHolder: "Repository",
+      matchOnDescription: true,
+    });
+  }
+
+  /** Asks before saving an entry that overlaps others on the same branch. */
+  private async confirmOverlaps(
+    entry: TimeEntry,
+    replaced: TimeEntry[]
+  ): Promise<boolean> {
+    const overlapping = this.tracker
+      .getTimeData()
+      .filter(
+        (other) =>
+          other.repository === entry.repository &&
+          other.branch === entry.branch &&
+          other.startTime < entry.endTime &&
+          other.endTime > entry.startTime &&
+          !replaced.some((original) => original.startTime === other.startTime)
+      );
+    if (overlapping.length === 0) {
+      return true;
+    }
+
+    const selection = await vscode.window.showWarningMessage(
+      `This session overlaps ${overlapping.length} other ${
+        overlapping.length === 1 ? "session" : "sessions"
+      } on ${entry.branch}, so that time would be counted twice.`,
+      { modal: true },
+      "Save Anyway"
+    );
+    return selection === "Save Anyway";
+  }
+
+  private describe(entry: TimeEntry): string {
+    const { timeZone } = this.tracker.getConfig();
+    return `on ${entry.branch} from ${formatDateTime(
+      entry.startTime,
+      timeZone
+    )} to ${formatDateTime(entry.endTime, timeZone)} (${formatDuration(
+      entry.duration
+    )})`;
+  }
+
+  private async save(
+    originals: TimeEntry[],
+    replacements: TimeEntry[],
+    message: string
+  ): Promise<boolean> {
+    const [collision] = this.tracker.findKeyCollisions(originals, replacements);
+    if (collision) {
+      vscode.window.showErrorMessage(
+        `Another session ${this.describe(
+          collision
+        )} starts at the same time on the same branch. Change the start time or delete that session first.`
+      );
+      return false;
+    }
+
+    if (!(await this.tracker.replaceEntries(originals, replacements))) {
+      vscode.window.showErrorMessage(
+        "Failed to save the changes. See the log for details."
+      );
+      return false;
+    }
+    vscode.window.showInformationMessage(message);
+    return true;
+  }
+}
@@ -1,115 +1,468 @@
 import * as vscode from "vscode";
 import * as path from "path";
-import * as fs from "fs";
-import { TimeEntry, ActiveSession } from "../interfaces/time-tracker";
-import { getCurrentRepository, getCurrentBranch } from "../utils/git-utils";
+import {
+  TimeEntry,
+  ActiveSession,
+  RepositoryInfo,
+  BranchInfo,
+  HeadChangeEvent,
+  SessionCheckpoint,
+  CorruptDataReport,
+  MergeResult,
+  IdleGap,
+  IdleDecision,
+  IssueSummary,
+  PauseState,
+  RepositoryState,
+} from "../interfaces/time-tracker";
+import { TrackerConfig } from "../interfaces/config";
+import { checkoutBranch, getRepositoryQualifier } from "../utils/git-utils";
+import { RepositoryWatcher } from "./repository-watcher";
+import { ActivityMonitor, Activity } from "./activity-monitor";
+import { SessionCheckpointStore } from "./session-checkpoint-store";
+import { IdleTimePrompt } from "./idle-time-prompt";
+import { TimeDataStore, entryKey } from "./time-data-store";
 import { BatchUpdater } from "../utils/batch-updater";
-import { debounce } from "../utils/debounce";
+import { getTrackerConfig, affectsTrackerConfig } from "../utils/config";
+import { formatDuration } from "../utils/format";
+import { getEntryDate, splitEntryByDay } from "../utils/date-utils";
+import { mergeImportedEntries } from "../utils/entry-merge";
+import { summarizeByIssue } from "../utils/issue-keys";
+import { addSourceTime, toSourceSeconds } from "../utils/activity-sources";
+import {
+  addFileTime,
+  isExcludedFile,
+  toFileSeconds,
+} from "../utils/file-breakdown";
+
+// globalState key, so a pause survives reloading the window
+const PAUSE_STATE_KEY = "gitBranchTimeTracker.pauseState";
+
+// Documents with a path in the repository; notebook cells use the notebook's
+const FILE_SCHEMES = ["file", "vscode-notebook-cell"];
+
+// Discarded idle gaps are stored but count for nothing
+const isCounted = (entry: TimeEntry) => entry.idle !== "discarded";
+
+const keyCollisions = (
+  entries: TimeEntry[],
+  originals: TimeEntry[],
+  replacements: TimeEntry[]
+): TimeEntry[] => {
+  const replaced = new Set(originals.map(entryKey));
+  const keys = new Set(replacements.map(entryKey));
+  return entries.filter(
+    (entry) => !replaced.has(entryKey(entry)) && keys.has(entryKey(entry))
+  );
+};
 
 export class GitBranchTimeTracker {
   private context: vscode.ExtensionContext;
-  private timeData: TimeEntry[] = [];
+  private store: TimeDataStore;
   private activeSession: ActiveSession | null = null;
   private activityTimer: NodeJS.Timeout | null = null;
-  private readonly INACTIVITY_THRESHOLD = 30 * 1000; // 30 seconds
-  private readonly DATA_FILE = "git-branch-time-data.json";
+  private config: TrackerConfig;
   private isDisposed = false;
   private batchUpdater: BatchUpdater<TimeEntry>;
+  private repositoryWatcher = new RepositoryWatcher();
+  private activityMonitor = new ActivityMonitor(() => this.config);
+  private checkpointStore: SessionCheckpointStore;
+  private checkpointTimer: NodeJS.Timeout | null = null;
+  private lastCheckpoint: SessionCheckpoint | null = null;
+  private migratingRepositories = new Set<string>();
+  // Session that ended from inactivity, kept until activity resumes
+  private idleSession: ActiveSession | null = null;
+  private idlePrompt = new IdleTimePrompt((repository) =>
+    this.getBranches(repository)
+  );
+  private pauseState: PauseState | null = null;
+  private resumeTimer: NodeJS.Timeout | null = null;
+
+  public readonly onDidChangeTimeData: vscode.Event<void>;
+  // Checkouts, renames and other HEAD changes in workspace repositories
+  public readonly onDidChangeHead = this.repositoryWatcher.onDidChangeHead;
+  private readonly onDidChangeTrackingStateEmitter =
+    new vscode.EventEmitter<void>();
+  // Fires when tracking is paused, stopped or resumed, and when a session
+  // starts or ends
+  public readonly onDidChangeTrackingState =
+    this.onDidChangeTrackingStateEmitter.event;
 
   constructor(context: vscode.ExtensionContext) {
     this.context = context;
+    this.config = getTrackerConfig();
+    this.store = new TimeDataStore(context.globalStorageUri?.fsPath);
+    this.onDidChangeTimeData = this.store.onDidChange;
+    this.checkpointStore = new SessionCheckpointStore(
+      context.globalStorageUri?.fsPath,
+      vscode.env.sessionId
+    );
     this.loadTimeData();
     this.batchUpdater = new BatchUpdater<TimeEntry>(
       (entries) => this.saveTimeDataBatch(entries),
-      10, // batch size
-      5000 // 5 seconds timeout
+      this.config.batchSize,
+      this.config.batchTimeout
     );
+    this.startCheckpointTimer();
+    this.restorePauseState();
     this.setupEventListeners();
     this.startInitialTracking();
   }
 
+  /** Picks up a pause from before the window was reloaded, if still due. */
+  private restorePauseState() {
+    const saved = this.context.globalState.get<PauseState>(PAUSE_STATE_KEY);
+    if (!saved) {
+      return;
+    }
+    if (saved.until !== null && saved.until <= Date.now()) {
+      this.context.globalState.update(PAUSE_STATE_KEY, undefined);
+      return;
+    }
+    this.pauseState = saved;
+    this.scheduleResume();
+  }
+
+  private setPauseState(state: PauseState | null) {
+    this.pauseState = state;
+    this.context.globalState.update(PAUSE_STATE_KEY, state || undefined);
+    this.scheduleResume();
+    this.onDidChangeTrackingStateEmitter.fire();
+  }
+
+  private scheduleResume() {
+    if (this.resumeTimer) {
+      clearTimeout(this.resumeTimer);
+      this.resumeTimer = null;
+    }
+    if (this.pauseState?.until) {
+      this.resumeTimer = setTimeout(() => {
+        console.log("Pause ended, resuming tracking");
+        this.resume();
+      }, Math.max(0, this.pauseState.until - Date.now()));
+    }
+  }
+
+  /**
+   * Ends the current session now and ignores activity until resumed, or
+   * for `minutes` if given.
+   */
+  public pause(minutes?: number) {
+    if (this.isDisposed) return;
+
+    const now = Date.now();
+    this.suspend({
+      reason: "paused",
+      since: now,
+      until: minutes ? now + minutes * 60 * 1000 : null,
+    });
+  }
+
+  /** Ends the current session now; nothing is tracked until started again. */
+  public stopTracking() {
+    if (this.isDisposed) return;
+
+    this.suspend({ reason: "stopped", since: Date.now(), until: null });
+  }
+
+  private suspend(state: PauseState) {
+    if (this.activeSession) {
+      // The user was active right up to the pause
+      this.activeSession.lastActivity = state.since;
+      this.stopCurrentSession();
+    }
+    if (this.activityTimer) {
+      clearTimeout(this.activityTimer);
+      this.activityTimer = null;
+    }
+    this.idleSession = null;
+    this.setPauseState(state);
+    console.log("Tracking suspended:", state.reason);
+  }
+
+  /** Lifts a pause or stop; tracking picks up with the next activity. */
+  public resume() {
+    if (this.isDisposed || !this.pauseState) return;
+
+    this.setPauseState(null);
+    console.log("Tracking resumed");
+  }
+
+  /**
+   * Lifts any pause and starts a session right away instead of waiting for
+   * an edit, on `branch` if given (checking it out first) or else on the
+   * current one. Returns the session, or null when the workspace has no
+   * Git repository. Rejects with git's message if the checkout fails.
+   */
+  public async startTracking(branch?: string): Promise<ActiveSession | null> {
+    if (this.isDisposed) return null;
+
+    this.resume();
+    const state = await this.resolveRepository();
+    if (!state) {
+      return null;
+    }
+    const root = state.repository.root;
+    if (branch && branch !== state.branch.name) {
+      await checkoutBranch(root, branch);
+      // Split at the checkout now rather than when the watcher notices
+      await this.repositoryWatcher.refresh(root);
+    }
+    await this.onActivity({ source: "coding", directory: root });
+    return this.getActiveSession();
+  }
+
+  public getPauseState(): PauseState | null {
+    return this.pauseState ? { ...this.pauseState } : null;
+  }
+
+  private get timeData(): TimeEntry[] {
+    return this.store.getEntries().filter(isCounted);
+  }
+
   private loadTimeData() {
-    try {
-      const globalStoragePath = this.context.globalStorageUri?.fsPath;
-      if (!globalStoragePath) {
-        console.log("No global storage path available");
-        return;
-      }
+    this.context.subscriptions.push(
+      this.store.onDidFindCorruptData((report) => this.onCorruptData(report))
+    );
+    this.store.load().then(() => this.recoverOrphanedCheckpoints());
+    // Pick up sessions recorded by other windows
+    this.store.watch();
+  }
 
-      const dataPath = path.join(globalStoragePath, this.DATA_FILE);
-      if (fs.existsSync(dataPath)) {
-        const data = fs.readFileSync(dataPath, "utf8");
-        this.timeData = JSON.parse(data);
-        console.log("Loaded time data:", this.timeData.length, "entries");
-      }
-    } catch (error) {
-      console.error("Failed to load time data:", error);
-      this.timeData = [];
+  private async onCorruptData(report: CorruptDataReport) {
+    const fileName = path.basename(report.file);
+    const message =
+      report.invalidEntries < 0
+        ? `Time tracking data in ${fileName} could not be read. It was moved to a backup and was not overwritten.`
+        : `Skipped ${report.invalidEntries} invalid time tracking ${
+            report.invalidEntries === 1 ? "entry" : "entries"
+          } in ${fileName}. The original file was backed up.`;
+
+    const selection = await vscode.window.showWarningMessage(
+      message,
+      "Open Backup"
+    );
+    if (selection === "Open Backup") {
+      const document = await vscode.workspace.openTextDocument(
+        vscode.Uri.file(report.backupPath)
+      );
+      vscode.window.showTextDocument(document);
     }
   }
 
-  private saveTimeDataBatch(entries: TimeEntry[]) {
-    try {
-      const globalStoragePath = this.context.globalStorageUri?.fsPath;
-      if (!globalStoragePath) {
-        console.error("No global storage path available");
-        return;
+  private async saveTimeDataBatch(entries: TimeEntry[]): Promise<boolean> {
+    const saved = await this.store.append(entries);
+    if (saved) {
+      console.log("Saved time data batch:", entries.length, "entries");
+    }
+    return saved;
+  }
+
+  /**
+   * Turns checkpoints left behind by crashed windows into completed entries.
+   * The active session ends at its last recorded activity; entries already
+   * on disk (flushed after the checkpoint was written) are skipped.
+   */
+  private async recoverOrphanedCheckpoints() {
+    const orphaned = this.checkpointStore.takeOrphaned();
+    if (orphaned.length === 0) {
+      return;
+    }
+
+    const known = new Set(this.store.getEntries().map(entryKey));
+    const recovered: TimeEntry[] = [];
+
+    orphaned.forEach((checkpoint) => {
+      const entries = [...checkpoint.pendingEntries];
+      if (checkpoint.activeSession) {
+        const entry = this.toTimeEntry(
+          checkpoint.activeSession,
+          checkpoint.activeSession.lastActivity
+        );
+        if (entry) {
+          entries.push(entry);
+        }
       }
 
-      if (!fs.existsSync(globalStoragePath)) {
-        fs.mkdirSync(globalStoragePath, { recursive: true });
+      entries.forEach((entry) => {
+        if (!known.has(entryKey(entry))) {
+          known.add(entryKey(entry));
+          recovered.push(entry);
+        }
+      });
+    });
+
+    console.log(
+      "Recovered",
+      recovered.length,
+      "entries from",
+      orphaned.length,
+      "checkpoints"
+    );
+    if (recovered.length === 0) {
+      return;
+    }
+
+    if (!(await this.store.append(recovered))) {
+      return;
+    }
+
+    const totalDuration = recovered.reduce(
+      (sum, entry) => sum + entry.duration,
+      0
+    );
+    const branches = Array.from(
+      new Set(
+        recovered.map(
+          (entry) =>
+            `${entry.repositoryName || entry.repository}/${entry.branch}`
+        )
+      )
+    );
+    const branchSummary =
+      branches.length > 3
+        ? `${branches.slice(0, 3).join(", ")} and ${branches.length - 3} more`
+        : branches.join(", ");
+
+    vscode.window.showInformationMessage(
+      `Recovered ${recovered.length} unsaved session${
+        recovered.length === 1 ? "" : "s"
+      } (${formatDuration(
+        totalDuration
+      )}) from a previous window that closed unexpectedly: ${branchSummary}.`
+    );
+  }
+
+  private startCheckpointTimer() {
+    if (this.checkpointTimer) {
+      clearInterval(this.checkpointTimer);
+    }
+
+    this.checkpointTimer = setInterval(
+      () => this.writeCheckpoint(),
+      this.config.checkpointInterval
+    );
+  }
+
+  private writeCheckpoint() {
+    if (this.isDisposed) return;
+
+    // Checkpoints of other windows that were still fresh at the last check
+    // are recovered once they go stale, should those windows have crashed
+    if (this.checkpointStore.hasDueCheckpoints()) {
+      this.recoverOrphanedCheckpoints();
+    }
+
+    const pendingEntries = this.batchUpdater.getPending();
+    if (!this.activeSession && pendingEntries.length === 0) {
+      this.checkpointStore.clear();
+      this.lastCheckpoint = null;
+      return;
+    }
+
+    const checkpoint: SessionCheckpoint = {
+      windowId: vscode.env.sessionId,
+      updatedAt: Date.now(),
+      interval: this.config.checkpointInterval,
+      activeSession: this.activeSession ? { ...this.activeSession } : null,
+      pendingEntries,
+    };
+
+    const previous = this.lastCheckpoint;
+    this.lastCheckpoint = checkpoint;
+
+    if (!this.checkpointStore.save(checkpoint) && previous) {
+      // Another window took our last checkpoint for a crash (e.g. after the
+      // machine slept), so what it held is already stored
+      console.log("Checkpoint was recovered elsewhere, skipping its contents");
+      const taken = new Set(previous.pendingEntries.map(entryKey));
+      this.batchUpdater.discard((entry) => taken.has(entryKey(entry)));
+
+      if (
+        this.activeSession &&
+        previous.activeSession &&
+        this.activeSession.startTime === previous.activeSession.startTime
+      ) {
+        this.activeSession.startTime = previous.activeSession.lastActivity;
+        this.activeSession.sources = {};
+        this.activeSession.files = [];
       }
+      this.writeCheckpoint();
+    }
+  }
 
-      // Add new entries to timeData
-      this.timeData.push(...entries);
+  /**
+   * Entries recorded before repository ids existed only carry the basename.
+   * The first time a repository with that basename is resolved, its entries
+   * are re-keyed to the repository id. If two clones share a basename, the
+   * legacy history goes to whichever is opened first.
+   */
+  private migrateLegacyEntries(repo: RepositoryInfo) {
+    const isLegacy = (entry: TimeEntry) =>
+      entry.repositoryName === undefined && entry.repository === repo.name;
 
-      const dataPath = path.join(globalStoragePath, this.DATA_FILE);
-      fs.writeFileSync(dataPath, JSON.stringify(this.timeData, null, 2));
-      console.log("Saved time data batch:", entries.length, "entries");
-    } catch (error) {
-      console.error("Failed to save time data batch:", error);
+    if (
+      this.migratingRepositories.has(repo.name) ||
+      !this.timeData.some(isLegacy)
+    ) {
+      return;
+    }
+
+    let migrated = 0;
+    this.migratingRepositories.add(repo.name);
+    this.store
+      .update((entries) =>
+        entries.map((entry) => {
+          if (!isLegacy(entry)) {
+            return entry;
+          }
+          migrated++;
+          return { ...entry, repository: repo.id, repositoryName: repo.name };
+        })
+      )
+      .then(() => {
+        console.log("Migrated", migrated, "legacy entries to", repo.id);
+        this.migratingRepositories.delete(repo.name);
+      });
+  }
+
+  private async migrateWorkspaceRepositories() {
+    const workspaceFolders = vscode.workspace.workspaceFolders || [];
+
+    for (const folder of workspaceFolders) {
+      if (this.isDisposed) return;
+
+      const state = await this.repositoryWatcher.getState(folder.uri.fsPath);
+      if (state) {
+        this.migrateLegacyEntries(state.repository);
+      }
     }
   }
 
   private setupEventListeners() {
     if (this.isDisposed) return;
 
-    // Track text document changes with debounce
+    // Apply setting changes without reloading the window
     this.context.subscriptions.push(
-      vscode.workspace.onDidChangeTextDocument(
-        debounce((event) => {
-          if (
-            event.document.uri.scheme === "file" &&
-            event.contentChanges.length > 0
-          ) {
-            console.log("Document changed:", event.document.fileName);
-            this.onActivity();
-          }
-        }, 300)
-      )
+      vscode.workspace.onDidChangeConfiguration((event) => {
+        if (affectsTrackerConfig(event)) {
+          console.log("Configuration changed");
+          this.applyConfig(getTrackerConfig());
+        }
+      })
     );
 
-    // Track when files are saved
+    // Edits, terminal, debugging and other sources, see ActivityMonitor
     this.context.subscriptions.push(
-      vscode.workspace.onDidSaveTextDocument(
-        debounce((document) => {
-          if (document.uri.scheme === "file") {
-            console.log("Document saved:", document.fileName);
-            this.onActivity();
-          }
-        }, 300)
+      this.activityMonitor.onDidDetectActivity((activity) =>
+        this.onActivity(activity)
       )
     );
 
-    // Track when files are opened
+    // Split sessions at the moment HEAD changes on disk
     this.context.subscriptions.push(
-      vscode.workspace.onDidOpenTextDocument(
-        debounce((document) => {
-          if (document.uri.scheme === "file") {
-            console.log("Document opened:", document.fileName);
-            this.onActivity();
-          }
-        }, 300)
+      this.repositoryWatcher.onDidChangeHead((event) =>
+        this.onHeadChange(event)
       )
     );
 
@@ -117,6 +470,7 @@ export class GitBranchTimeTracker {
     this.context.subscriptions.push(
       vscode.workspace.onDidChangeWorkspaceFolders(() => {
         console.log("Workspace folders changed");
+        this.repositoryWatcher.reset();
         this.startInitialTracking();
       })
     );
@@ -124,64 +478,104 @@ export class GitBranchTimeTracker {
     // Track when VS Code window loses focus
     this.context.subscriptions.push(
       vscode.window.onDidChangeWindowState((state) => {
-        if (!state.focused) {
+        if (!state.focused && this.activeSession) {
           console.log("Window lost focus");
-          this.stopCurrentSession();
+          // Still within the inactivity threshold, so count up to now
+          this.activeSession.lastActivity = Date.now();
+          this.stopCurrentSession(true);
         }
       })
     );
+  }
 
-    // Track active editor changes with debounce
-    this.context.subscriptions.push(
-      vscode.window.onDidChangeActiveTextEditor(
-        debounce((editor) => {
-          if (editor && editor.document.uri.scheme === "file") {
-            console.log("Active editor changed:", editor.document.fileName);
-            this.onActivity();
-          }
-        }, 300)
-      )
-    );
+  private applyConfig(config: TrackerConfig) {
+    if (this.isDisposed) return;
+
+    this.config = config;
+    this.batchUpdater.updateSettings(config.batchSize, config.batchTimeout);
+    this.startCheckpointTimer();
+
+    // Re-arm the inactivity timer against the new threshold
+    if (this.activeSession) {
+      this.resetActivityTimer(
+        config.inactivityThreshold -
+          (Date.now() - this.activeSession.lastActivity)
+      );
+    }
   }
 
-  private async onActivity() {
+  public getConfig(): TrackerConfig {
+    return { ...this.config };
+  }
+
+  private async onActivity(activity: Activity = { source: "coding" }) {
     if (this.isDisposed) return;
 
+    if (this.pauseState) return;
+
     const now = Date.now();
     console.log("Activity detected at:", new Date(now).toLocaleTimeString());
 
-    try {
-      const workspaceFolder = this.getActiveWorkspaceFolder();
-      if (!workspaceFolder) {
-        console.log("No workspace folder found");
-        return;
-      }
-
-      const currentRepo = await getCurrentRepository(
-        workspaceFolder.uri.fsPath
-      );
-      const currentBranch = await getCurrentBranch(workspaceFolder.uri.fsPath);
+    if (this.idleSession) {
+      this.onIdleReturn({
+        session: this.idleSession,
+        start: this.idleSession.lastActivity,
+        end: now,
+      });
+      this.idleSession = null;
+    }
 
-      if (!currentRepo || !currentBranch) {
+    try {
+      const state = await this.resolveRepository(activity.directory);
+      if (!state) {
         console.log("Not in a git repository or no branch found");
         return;
       }
 
-      console.log("Current repo:", currentRepo, "branch:", currentBranch);
+      const currentRepo = state.repository;
+      const currentBranch = state.branch;
+
+      console.log(
+        "Current repo:",
+        currentRepo.id,
+        "branch:",
+        currentBranch.name,
+        "state:",
+        currentBranch.state
+      );
+      this.migrateLegacyEntries(currentRepo);
 
       // If no active session or different repo/branch, start new session
+      // Worktrees of one repository share its id but not their root
       if (
         !this.activeSession ||
-        this.activeSession.repository !== currentRepo ||
-        this.activeSession.branch !== currentBranch
+        this.activeSession.repository !== currentRepo.id ||
+        (this.activeSession.root || currentRepo.root) !== currentRepo.root ||
+        this.activeSession.branch !== currentBranch.name ||
+        this.activeSession.gitState !== currentBranch.state
       ) {
         console.log("Starting new session");
         this.stopCurrentSession();
         this.startNewSession(currentRepo, currentBranch, now);
       }
 
-      // Update last activity time
+      // Credit the time since the previous activity to its source and to
+      // the file that was in front of the user until now
       if (this.activeSession) {
+        const elapsed = now - this.activeSession.lastActivity;
+        if (this.activeSession.source) {
+          const sources = this.activeSession.sources || {};
+          addSourceTime(sources, this.activeSession.source, elapsed);
+          this.activeSession.sources = sources;
+        }
+        if (this.activeSession.file) {
+          const files = this.activeSession.files || [];
+          addFileTime(files, this.activeSession.file, elapsed);
+          this.activeSession.files = files;
+        }
+        this.activeSession.file =
+          this.getActiveFile(currentRepo.root) || undefined;
+        this.activeSession.source = activity.source;
         this.activeSession.lastActivity = now;
         console.log("Updated last activity time");
       }
@@ -193,82 +587,250 @@ export class GitBranchTimeTracker {
     }
   }
 
-  private getActiveWorkspaceFolder(): vscode.WorkspaceFolder | null {
-    const workspaceFolders = vscode.workspace.workspaceFolders;
-    if (!workspaceFolders || workspaceFolders.length === 0) {
+  /**
+   * Offers to count an idle gap above the prompt threshold; shorter gaps
+   * are dropped. Gaps the user discards are recorded without a duration.
+   */
+  private async onIdleReturn(gap: IdleGap) {
+    const threshold = this.config.idlePromptThreshold;
+    if (threshold === 0 || gap.end - gap.start < threshold) {
+      return;
+    }
+
+    const branch = await this.idlePrompt.ask(gap);
+    if (this.isDisposed) {
+      return;
+    }
+
+    const decision: IdleDecision = !branch
+      ? "discarded"
+      : branch === gap.session.branch
+      ? "kept"
+      : "reassigned";
+    const kept = decision !== "reassigned";
+    const entry = this.toTimeEntry(
+      {
+        ...gap.session,
+        branch: branch || gap.session.branch,
+        gitState: kept ? gap.session.gitState : "branch",
+        startTime: gap.start,
+        // Nobody was active, so there is nothing to attribute
+        source: undefined,
+        sources: undefined,
+        files: undefined,
+      },
+      gap.end
+    );
+    if (entry) {
+      this.batchUpdater.add({
+        ...entry,
+        ...(decision === "discarded" && { duration: 0 }),
+        idle: decision,
+      });
+      console.log("Idle time", decision, "on:", entry.branch);
+    }
+  }
+
+  private onHeadChange(event: HeadChangeEvent) {
+    // Only a checkout in the session's own worktree ends it
+    if (
+      this.isDisposed ||
+      !this.activeSession ||
+      this.activeSession.repository !== event.repository.id ||
+      (this.activeSession.root || event.repository.root) !==
+        event.repository.root
+    ) {
+      return;
+    }
+
+    // The user was active until the checkout, so the old branch is credited
+    // right up to it and the new branch starts at the same instant
+    const switchTime = Math.max(event.timestamp, this.activeSession.startTime);
+    const { source, file, lastActivity } = this.activeSession;
+    console.log("Branch switched, splitting session at:", switchTime);
+
+    if (file && switchTime > lastActivity) {
+      const files = this.activeSession.files || [];
+      addFileTime(files, file, switchTime - lastActivity);
+      this.activeSession.files = files;
+    }
+    this.activeSession.lastActivity = Math.max(lastActivity, switchTime);
+    this.stopCurrentSession();
+    // The same file stays open in the worktree
+    this.startNewSession(event.repository, event.branch, switchTime, {
+      source,
+      file,
+    });
+    this.resetActivityTimer(
+      this.config.inactivityThreshold - (Date.now() - switchTime)
+    );
+  }
+
+  /**
+   * The active document as a path in the repository, or null if it's
+   * outside of it or matches `fileExclusions`.
+   */
+  private getActiveFile(
+    root: string
+  ): { path: string; language: string } | null {
+    const document = vscode.window.activeTextEditor?.document;
+    if (!document || !FILE_SCHEMES.includes(document.uri.scheme)) {
       return null;
     }
 
-    // Try to get workspace folder of active document
-    const activeEditor = vscode.window.activeTextEditor;
-    if (activeEditor) {
-      const activeDocument = activeEditor.document;
-      const workspaceFolder = vscode.workspace.getWorkspaceFolder(
-        activeDocument.uri
+    const relative = path.relative(root, document.uri.fsPath);
+    if (!relative || relative.startsWith("..") || path.isAbsolute(relative)) {
+      return null;
+    }
+    const filePath = relative.split(path.sep).join("/");
+    return isExcludedFile(filePath, this.config.fileExclusions)
+      ? null
+      : { path: filePath, language: document.languageId };
+  }
+
+  /**
+   * The repository an activity's time goes to:
+   * 1. the innermost one containing the directory it happened in, so a
+   *    submodule or nested repository rather than the workspace folder;
+   * 2. for activity without a directory (untitled buffers, breakpoints,
+   *    terminals that don't report theirs), that of the active editor;
+   * 3. otherwise the repository of the running session, or the only one
+   *    among the workspace folders.
+   * Activity in a directory outside every repository isn't tracked, and
+   * with several repositories and nothing to go by, neither is any.
+   */
+  private async resolveRepository(
+    directory?: string
+  ): Promise<RepositoryState | null> {
+    if (directory) {
+      return this.repositoryWatcher.getState(directory);
+    }
+
+    const document = vscode.window.activeTextEditor?.document;
+    if (document && FILE_SCHEMES.includes(document.uri.scheme)) {
+      const state = await this.repositoryWatcher.getState(
+        path.dirname(document.uri.fsPath)
+      );
+      if (state) {
+        return state;
+      }
+    }
+
+    if (this.activeSession?.root) {
+      const state = await this.repositoryWatcher.getState(
+        this.activeSession.root
       );
-      if (workspaceFolder) {
-        return workspaceFolder;
+      if (state) {
+        return state;
       }
     }
 
-    // Fallback to first workspace folder
-    return workspaceFolders[0];
+    const folders = (
+      await Promise.all(
+        (vscode.workspace.workspaceFolders || []).map((folder) =>
+          this.repositoryWatcher.getState(folder.uri.fsPath)
+        )
+      )
+    ).filter((state): state is RepositoryState => state !== null);
+    const roots = new Set(folders.map((state) => state.repository.root));
+    return roots.size === 1 ? folders[0] : null;
   }
 
   private startNewSession(
-    repository: string,
-    branch: string,
-    startTime: number
+    repository: RepositoryInfo,
+    branch: BranchInfo,
+    startTime: number,
+    carried: Pick<ActiveSession, "source" | "file"> = {}
   ) {
     this.activeSession = {
-      repository,
-      branch,
+      repository: repository.id,
+      repositoryName: repository.name,
+      branch: branch.name,
+      gitState: branch.state,
+      root: repository.root,
+      ...(repository.worktree && { worktree: repository.worktree }),
       startTime,
       lastActivity: startTime,
+      ...carried,
+      sources: {},
+      files: [],
+    };
+    console.log("New session started:", repository.id, branch.name);
+    this.onDidChangeTrackingStateEmitter.fire();
+  }
+
+  private toTimeEntry(
+    session: ActiveSession,
+    endTime: number
+  ): TimeEntry | null {
+    const duration = Math.max(0, endTime - session.startTime);
+
+    // Only save sessions longer than the configured minimum
+    if (duration <= this.config.minimumSessionDuration) {
+      return null;
+    }
+
+    const files = toFileSeconds(session.files || []);
+    return {
+      date: getEntryDate(session.startTime, this.config),
+      repository: session.repository,
+      repositoryName: session.repositoryName,
+      branch: session.branch,
+      ...(session.gitState !== "branch" && {
+        gitState: session.gitState,
+      }),
+      duration: Math.floor(duration / 1000),
+      startTime: session.startTime,
+      endTime: endTime,
+      // Time since the latest activity (e.g. up to losing focus) goes to
+      // its source
+      ...(session.source && {
+        sources: toSourceSeconds(
+          session.sources || {},
+          Math.floor(duration / 1000),
+          session.source
+        ),
+      }),
+      ...(files.length > 0 && { files }),
+      ...(session.worktree && { worktree: session.worktree }),
     };
-    console.log("New session started:", repository, branch);
   }
 
-  private stopCurrentSession() {
+  private stopCurrentSession(wentIdle = false) {
     if (!this.activeSession) {
       return;
     }
+    if (wentIdle) {
+      this.idleSession = { ...this.activeSession };
+    }
 
     const endTime = this.activeSession.lastActivity;
     const duration = Math.max(0, endTime - this.activeSession.startTime);
 
     console.log("Stopping session, duration:", duration / 1000, "seconds");
 
-    if (duration > 5000) {
-      // Only save sessions longer than 5 seconds
-      const entry: TimeEntry = {
-        date: new Date(this.activeSession.startTime)
-          .toISOString()
-          .split("T")[0],
-        repository: this.activeSession.repository,
-        branch: this.activeSession.branch,
-        duration: Math.floor(duration / 1000),
-        startTime: this.activeSession.startTime,
-        endTime: endTime,
-      };
-
+    const entry = this.toTimeEntry(this.activeSession, endTime);
+    if (entry) {
       // Use batch updater instead of direct save
       this.batchUpdater.add(entry);
       console.log("Session added to batch:", entry);
     }
 
     this.activeSession = null;
+    if (!this.isDisposed) {
+      this.onDidChangeTrackingStateEmitter.fire();
+    }
   }
 
-  private resetActivityTimer() {
+  private resetActivityTimer(delay = this.config.inactivityThreshold) {
     if (this.activityTimer) {
       clearTimeout(this.activityTimer);
     }
 
     this.activityTimer = setTimeout(() => {
       console.log("Inactivity timeout reached");
-      this.stopCurrentSession();
-    }, this.INACTIVITY_THRESHOLD);
+      this.stopCurrentSession(true);
+    }, Math.max(0, delay));
   }
 
   private async startInitialTracking() {
@@ -276,6 +838,7 @@ export class GitBranchTimeTracker {
     setTimeout(() => {
       if (!this.isDisposed) {
         console.log("Starting initial tracking check");
+        this.migrateWorkspaceRepositories();
         this.onActivity();
       }
     }, 2000);
@@ -285,11 +848,122 @@ export class GitBranchTimeTracker {
     return [...this.timeData];
   }
 
-  public resetData() {
-    this.timeData = [];
-    this.stopCurrentSession();
-    this.batchUpdater.flush();
+  /**
+   * Deletes all stored time. The running session and sessions not yet
+   * written are dropped too, rather than saved after the wipe.
+   */
+  public async resetData(): Promise<boolean> {
+    this.activeSession = null;
+    this.idleSession = null;
+    if (this.activityTimer) {
+      clearTimeout(this.activityTimer);
+      this.activityTimer = null;
+    }
+    this.batchUpdater.discard(() => true);
+    // Nothing left for crash recovery to bring back
+    this.writeCheckpoint();
+
+    if (!(await this.store.update(() => []))) {
+      vscode.window.showErrorMessage("Time tracking data could not be reset.");
+      return false;
+    }
     vscode.window.showInformationMessage("Time tracking data has been reset.");
+    return true;
+  }
+
+  /**
+   * Merges sessions from another installation into the store, skipping
+   * those already tracked. Returns null if the store could not be written.
+   */
+  public async importEntries(
+    entries: TimeEntry[]
+  ): Promise<MergeResult | null> {
+    // Compare against everything this window has recorded too
+    this.batchUpdater.flush();
+
+    let result: MergeResult = { added: [], duplicates: 0, conflicts: [] };
+    const saved = await this.store.update((current) => {
+      result = mergeImportedEntries(current, entries, this.config);
+      return [...current, ...result.added];
+    });
+
+    return saved ? result : null;
+  }
+
+  /** Moves all time tracked on `from` to `to`, e.g. after `git branch -m`. */
+  public async renameBranch(
+    repository: string,
+    from: string,
+    to: string
+  ): Promise<boolean> {
+    if (
+      this.activeSession?.repository === repository &&
+      this.activeSession.branch === from
+    ) {
+      this.activeSession.branch = to;
+    }
+    this.batchUpdater.flush();
+
+    return this.store.update((current) =>
+      current.map((entry) =>
+        entry.repository === repository && entry.branch === from
+          ? { ...entry, branch: to }
+          : entry
+      )
+    );
+  }
+
+  /** Writes out sessions still waiting in the batch, so they can be edited. */
+  public async flushPendingEntries() {
+    await this.batchUpdater.flush();
+    await this.store.whenIdle();
+  }
+
+  /**
+   * Swaps `originals` for `replacements` in one write, which covers adding,
+   * editing, splitting, merging and deleting entries by hand. Nothing is
+   * written, and false returned, if a replacement has the key of a stored
+   * entry other than the originals; see findKeyCollisions.
+   */
+  public async replaceEntries(
+    originals: TimeEntry[],
+    replacements: TimeEntry[]
+  ): Promise<boolean> {
+    this.batchUpdater.flush();
+
+    let collided = false;
+    const saved = await this.store.update((current) => {
+      if (keyCollisions(current, originals, replacements).length > 0) {
+        collided = true;
+        return current;
+      }
+      const removed = new Set(originals.map(entryKey));
+      return [
+        ...current.filter((entry) => !removed.has(entryKey(entry))),
+        ...replacements,
+      ];
+    });
+    return saved && !collided;
+  }
+
+  /**
+   * Stored sessions, other than `originals`, with the key (repository,
+   * branch and start) of one of `replacements`. Saving would replace them.
+   */
+  public findKeyCollisions(
+    originals: TimeEntry[],
+    replacements: TimeEntry[]
+  ): TimeEntry[] {
+    return keyCollisions(this.store.getEntries(), originals, replacements);
+  }
+
+  public getActiveSession(): ActiveSession | null {
+    return this.activeSession ? { ...this.activeSession } : null;
+  }
+
+  /** Completed sessions not yet written to the store. */
+  public getPendingEntries(): TimeEntry[] {
+    return this.batchUpdater.getPending().filter(isCounted);
   }
 
   public getStatsForRepository(repository: string): any {
@@ -302,36 +976,157 @@ export class GitBranchTimeTracker {
       if (!branches[entry.branch]) {
         branches[entry.branch] = {};
       }
-      if (!branches[entry.branch][entry.date]) {
-        branches[entry.branch][entry.date] = 0;
-      }
-      branches[entry.branch][entry.date] += entry.duration;
+      // Sessions running past the day boundary count towards both days
+      splitEntryByDay(entry, this.config).forEach(({ date, duration }) => {
+        branches[entry.branch][date] =
+          (branches[entry.branch][date] || 0) + duration;
+      });
     });
 
     return branches;
   }
 
+  /** Time per issue key found in branch names, see issueKeyPatterns. */
+  public getIssueSummaries(): IssueSummary[] {
+    return summarizeByIssue(this.timeData, this.config.issueKeyPatterns);
+  }
+
+  /** Branches tracked in a repository, most recently used first. */
+  public getBranches(repository: string): string[] {
+    const lastUsed = new Map<string, number>();
+    this.timeData.forEach((entry) => {
+      if (entry.repository === repository) {
+        lastUsed.set(
+          entry.branch,
+          Math.max(lastUsed.get(entry.branch) || 0, entry.endTime)
+        );
+      }
+    });
+    return Array.from(lastUsed.keys()).sort(
+      (a, b) => (lastUsed.get(b) as number) - (lastUsed.get(a) as number)
+    );
+  }
+
+  /**
+   * Repository and branch activity without a directory would be tracked
+   * on, e.g. that of the active editor.
+   */
+  public getCurrentRepositoryState(): Promise<RepositoryState | null> {
+    return this.resolveRepository();
+  }
+
+  /** Repository and branch of a folder, cached; see RepositoryWatcher. */
+  public getRepositoryState(
+    folderPath: string
+  ): Promise<RepositoryState | null> {
+    return this.repositoryWatcher.getState(folderPath);
+  }
+
+  /**
+   * Repositories open in the workspace, one per root: those of the
+   * workspace folders first, then nested ones. Linked worktrees of one
+   * repository share its id, so it can appear more than once.
+   */
+  public async getWorkspaceRepositories(): Promise<RepositoryInfo[]> {
+    const repositories = new Map<string, RepositoryInfo>();
+    for (const folder of vscode.workspace.workspaceFolders || []) {
+      const state = await this.repositoryWatcher.getState(folder.uri.fsPath);
+      if (state) {
+        repositories.set(state.repository.root, state.repository);
+      }
+    }
+    // Submodules and nested repositories files were edited in
+    this.repositoryWatcher.getRepositories().forEach(({ repository }) => {
+      if (!repositories.has(repository.root)) {
+        repositories.set(repository.root, repository);
+      }
+    });
+    return Array.from(repositories.values());
+  }
+
   public getAllRepositories(): string[] {
     const repos = new Set(this.timeData.map((entry) => entry.repository));
     return Array.from(repos);
   }
 
+  /**
+   * Display names for every repository id, qualified with owner/parent
+   * directory where two repositories share the same basename.
+   */
+  public getRepositoryLabels(): { [repository: string]: string } {
+    const names: { [repository: string]: string } = {};
+    this.timeData.forEach((entry) => {
+      names[entry.repository] = entry.repositoryName || entry.repository;
+    });
+
+    const counts: { [name: string]: number } = {};
+    Object.values(names).forEach((name) => {
+      counts[name] = (counts[name] || 0) + 1;
+    });
+
+    const labels: { [repository: string]: string } = {};
+    Object.entries(names).forEach(([repository, name]) => {
+      labels[repository] =
+        counts[name] > 1
+          ? `${name} (${getRepositoryQualifier(repository)})`
+          : name;
+    });
+
+    return labels;
+  }
+
   public getCurrentStatus(): string {
+    if (this.pauseState) {
+      if (this.pauseState.reason === "stopped") {
+        return "Stopped";
+      }
+      return this.pauseState.until
+        ? `Paused until ${new Date(this.pauseState.until).toLocaleTimeString(
+            [],
+            { hour: "2-digit", minute: "2-digit" }
+          )}`
+        : "Paused";
+    }
     if (this.activeSession) {
       const duration = Date.now() - this.activeSession.startTime;
       const minutes = Math.floor(duration / 60000);
       const seconds = Math.floor((duration % 60000) / 1000);
-      return `Active: ${this.activeSession.repository}/${this.activeSession.branch} (${minutes}m ${seconds}s)`;
+      const state =
+        this.activeSession.gitState === "branch" ||
+        this.activeSession.gitState === "detached"
+          ? ""
+          : ` [${this.activeSession.gitState}]`;
+      return `Active: ${this.activeSession.repositoryName}/${this.activeSession.branch}${state} (${minutes}m ${seconds}s)`;
     }
     return "Inactive";
   }
 
-  public dispose() {
+  public async dispose() {
+    if (this.isDisposed) return;
+
     this.isDisposed = true;
     this.stopCurrentSession();
     if (this.activityTimer) {
       clearTimeout(this.activityTimer);
     }
-    this.batchUpdater.dispose();
+    if (this.checkpointTimer) {
+      clearInterval(this.checkpointTimer);
+    }
+    if (this.resumeTimer) {
+      clearTimeout(this.resumeTimer);
+    }
+    this.onDidChangeTrackingStateEmitter.dispose();
+    const flushed = this.batchUpdater.dispose();
+    this.repositoryWatcher.dispose();
+    this.activityMonitor.dispose();
+
+    // The crash checkpoint is only dropped once the last sessions are on
+    // disk; if writing them failed, the next window recovers them from it
+    const saved = await flushed;
+    await this.store.whenIdle();
+    this.store.dispose();
+    if (saved) {
+      this.checkpointStore.clear();
+    }
   }
 }
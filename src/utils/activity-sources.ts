@@ -0,0 +1,102 @@
+import { ActivitySource, SourceTimes } from "../interfaces/time-tracker";
+
+// Display order; coding is what the tracker always counted
+export const ACTIVITY_SOURCES: ActivitySource[] = [
+  "coding",
+  "reading",
+  "terminal",
+  "debugging",
+  "notebook",
+  "task",
+];
+
+export const ACTIVITY_SOURCE_LABELS: { [source in ActivitySource]: string } = {
+  coding: "Coding",
+  reading: "Reading",
+  terminal: "Terminal",
+  debugging: "Debugging",
+  notebook: "Notebooks",
+  task: "Tasks",
+};
+
+const sumTimes = (times: SourceTimes): number =>
+  ACTIVITY_SOURCES.reduce((sum, source) => sum + (times[source] || 0), 0);
+
+/** Adds time to one source in place. */
+export function addSourceTime(
+  times: SourceTimes,
+  source: ActivitySource,
+  amount: number
+) {
+  if (amount > 0) {
+    times[source] = (times[source] || 0) + amount;
+  }
+}
+
+/** Splits `duration` whole seconds in proportion to `weights`. */
+function distribute(weights: SourceTimes, duration: number): SourceTimes {
+  const seconds: SourceTimes = {};
+  const total = sumTimes(weights);
+  let remaining = duration;
+  const sources = ACTIVITY_SOURCES.filter((source) => weights[source]);
+  [...sources]
+    .sort((a, b) => weights[a]! - weights[b]!)
+    .forEach((source, index) => {
+      // The largest source absorbs the rounding
+      seconds[source] =
+        index === sources.length - 1
+          ? remaining
+          : Math.min(
+              remaining,
+              Math.round((weights[source]! / total) * duration)
+            );
+      remaining -= seconds[source]!;
+    });
+
+  // In display order, dropping sources rounded down to nothing
+  const result: SourceTimes = {};
+  sources.forEach((source) => addSourceTime(result, source, seconds[source]!));
+  return result;
+}
+
+/**
+ * Converts credited milliseconds to whole seconds that add up to
+ * `duration`. Time no source was credited with goes to `fallback`.
+ */
+export function toSourceSeconds(
+  times: SourceTimes,
+  duration: number,
+  fallback: ActivitySource
+): SourceTimes {
+  const weights: SourceTimes = {};
+  const credited = sumTimes(times);
+  addSourceTime(weights, fallback, duration * 1000 - credited);
+  ACTIVITY_SOURCES.forEach((source) =>
+    addSourceTime(weights, source, times[source] || 0)
+  );
+  return distribute(weights, duration);
+}
+
+/** The share of an entry's sources in `duration` seconds of it. */
+export function scaleSources(
+  sources: SourceTimes,
+  duration: number
+): SourceTimes {
+  return distribute(sources, duration);
+}
+
+/**
+ * Per-source totals. Entries recorded before sources were tracked, and
+ * those entered by hand, are left out.
+ */
+export function sumSources(all: (SourceTimes | undefined)[]): SourceTimes {
+  const result: SourceTimes = {};
+  all.forEach((sources) => {
+    if (sources) {
+      ACTIVITY_SOURCES.forEach((source) =>
+        addSourceTime(result, source, sources[source] || 0)
+      );
+    }
+  });
+  return result;
+}
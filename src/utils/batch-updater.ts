@@ -1,11 +1,11 @@
 export class BatchUpdater<T> {
   private batch: T[] = [];
   private timeout: NodeJS.Timeout | null = null;
-  private readonly batchSize: number;
-  private readonly batchTimeout: number;
+  private batchSize: number;
+  private batchTimeout: number;
 
   constructor(
-    private readonly onBatchUpdate: (items: T[]) => void,
+    private readonly onBatchUpdate: (items: T[]) => Promise<boolean>,
     batchSize: number = 10,
     batchTimeout: number = 5000
   ) {
@@ -23,9 +23,32 @@ export class BatchUpdater<T> {
     }
   }
 
-  public flush(): void {
+  public updateSettings(batchSize: number, batchTimeout: number): void {
+    this.batchSize = batchSize;
+    this.batchTimeout = batchTimeout;
+
+    // Apply the new limits to whatever is already queued
+    if (this.batch.length >= this.batchSize) {
+      this.flush();
+    } else if (this.timeout) {
+      clearTimeout(this.timeout);
+      this.timeout = setTimeout(() => this.flush(), this.batchTimeout);
+    }
+  }
+
+  public getPending(): T[] {
+    return [...this.batch];
+  }
+
+  public discard(predicate: (item: T) => boolean): void {
+    this.batch = this.batch.filter((item) => !predicate(item));
+  }
+
+  /** Hands the queued items over; resolves to whether they were saved. */
+  public flush(): Promise<boolean> {
+    let saved = Promise.resolve(true);
     if (this.batch.length > 0) {
-      this.onBatchUpdate([...this.batch]);
+      saved = this.onBatchUpdate([...this.batch]);
       this.batch = [];
     }
 
@@ -33,9 +56,10 @@ export class BatchUpdater<T> {
       clearTimeout(this.timeout);
       this.timeout = null;
     }
+    return saved;
   }
 
-  public dispose(): void {
-    this.flush();
+  public dispose(): Promise<boolean> {
+    return this.flush();
   }
 }
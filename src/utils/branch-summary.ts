@@ -0,0 +1,46 @@
+import { TimeEntry, BranchSummary } from "../interfaces/time-tracker";
+import { DayOptions, getEntryDate } from "./date-utils";
+import { formatDuration } from "./format";
+
+/** Totals of a branch's entries, null if it has none. */
+export function summarizeBranch(
+  entries: TimeEntry[],
+  repository: string,
+  branch: string,
+  days: DayOptions
+): BranchSummary | null {
+  const branchEntries = entries.filter(
+    (entry) => entry.repository === repository && entry.branch === branch
+  );
+  if (branchEntries.length === 0) {
+    return null;
+  }
+
+  const first = branchEntries.reduce(
+    (min, entry) => Math.min(min, entry.startTime),
+    Infinity
+  );
+  const last = branchEntries.reduce(
+    (max, entry) => Math.max(max, entry.endTime),
+    0
+  );
+  return {
+    repository,
+    branch,
+    duration: branchEntries.reduce((sum, entry) => sum + entry.duration, 0),
+    sessions: branchEntries.length,
+    firstDay: getEntryDate(first, days),
+    lastDay: getEntryDate(last, days),
+  };
+}
+
+/** One-line description, e.g. for notifications. */
+export function describeBranchSummary(summary: BranchSummary): string {
+  const days =
+    summary.firstDay === summary.lastDay
+      ? `on ${summary.firstDay}`
+      : `from ${summary.firstDay} to ${summary.lastDay}`;
+  return `${formatDuration(summary.duration)} over ${summary.sessions} ${
+    summary.sessions === 1 ? "session" : "sessions"
+  }, ${days}`;
+}
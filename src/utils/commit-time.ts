@@ -0,0 +1,77 @@
+import { TimeEntry, CommitInfo, CommitTime } from "../interfaces/time-tracker";
+
+export const TIME_SPENT_TRAILER = "Time-Spent";
+
+/**
+ * Seconds of an entry falling between `from` and `to`. Its duration is
+ * prorated by the overlap, as the recorded duration may be less than the
+ * wall time it spans.
+ */
+export function timeBetween(entry: TimeEntry, from: number, to: number) {
+  const overlap = Math.min(entry.endTime, to) - Math.max(entry.startTime, from);
+  const span = entry.endTime - entry.startTime;
+  if (overlap <= 0 || span <= 0) {
+    return 0;
+  }
+  return (entry.duration * overlap) / span;
+}
+
+/**
+ * Credits each commit with the time tracked on its branch since the commit
+ * before it. `commits` are newest first, as git log lists them; the first
+ * one's window starts at `since`, or covers all earlier time if null.
+ */
+export function attributeTimeToCommits(
+  entries: TimeEntry[],
+  commits: CommitInfo[],
+  since: number | null
+): CommitTime[] {
+  const ascending = [...commits].sort((a, b) => a.timestamp - b.timestamp);
+
+  return ascending
+    .map((commit, index) => {
+      const from =
+        index > 0 ? ascending[index - 1].timestamp : since ?? -Infinity;
+      const duration = entries.reduce(
+        (sum, entry) => sum + timeBetween(entry, from, commit.timestamp),
+        0
+      );
+      return { commit, duration: Math.round(duration) };
+    })
+    .reverse();
+}
+
+/** Compact duration for commit trailers, e.g. 1h20m or 45m. */
+export function formatTrailerDuration(seconds: number): string {
+  const minutes = Math.max(1, Math.round(seconds / 60));
+  const hours = Math.floor(minutes / 60);
+  if (hours === 0) {
+    return `${minutes}m`;
+  }
+  return minutes % 60 === 0 ? `${hours}h` : `${hours}h${minutes % 60}m`;
+}
+
+/**
+ * Adds or replaces the Time-Spent trailer of a commit message, joining an
+ * existing trailer block if the message ends with one.
+ */
+export function setTimeSpentTrailer(message: string, seconds: number): string {
+  const trailer = `${TIME_SPENT_TRAILER}: ${formatTrailerDuration(seconds)}`;
+  const lines = message.replace(/\s+$/, "").split(/\r?\n/);
+
+  const existing = lines.findIndex((line) =>
+    line.startsWith(`${TIME_SPENT_TRAILER}:`)
+  );
+  if (existing >= 0) {
+    lines[existing] = trailer;
+    return lines.join("\n");
+  }
+
+  const lastParagraph = lines.slice(lines.lastIndexOf("") + 1);
+  const endsWithTrailers =
+    lines.includes("") && lastParagraph.every((line) => /^[\w-]+: /.test(line));
+  if (lines.length === 1 && lines[0] === "") {
+    return `\n\n${trailer}`;
+  }
+  return [...lines, ...(endsWithTrailers ? [] : [""]), trailer].join("\n");
+}
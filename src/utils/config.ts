@@ -0,0 +1,86 @@
+import * as vscode from "vscode";
+import { TrackerConfig } from "../interfaces/config";
+import { ActivitySource } from "../interfaces/time-tracker";
+import { isValidTimeZone } from "./date-utils";
+import { DEFAULT_ISSUE_KEY_PATTERNS, isValidPattern } from "./issue-keys";
+import { DEFAULT_FILE_EXCLUSIONS } from "./file-breakdown";
+
+export const CONFIG_SECTION = "gitBranchTimeTracker";
+
+// Keep these bounds in sync with contributes.configuration in package.json
+const clamp = (
+  value: number | undefined,
+  fallback: number,
+  min: number,
+  max: number
+): number => {
+  if (typeof value !== "number" || !Number.isFinite(value)) {
+    return fallback;
+  }
+  return Math.min(max, Math.max(min, value));
+};
+
+export function getTrackerConfig(): TrackerConfig {
+  const config = vscode.workspace.getConfiguration(CONFIG_SECTION);
+  const timeZone = (config.get<string>("timezone") || "").trim();
+  const issueKeyPatterns = config.get<string[]>("issueKeyPatterns");
+  const fileExclusions = config.get<string[]>("fileExclusions");
+  const activitySources =
+    config.get<{ [source: string]: unknown }>("activitySources") || {};
+  // Sources other than coding can be turned off one by one
+  const isEnabled = (source: ActivitySource) =>
+    activitySources[source] !== false;
+
+  return {
+    inactivityThreshold:
+      clamp(config.get<number>("inactivityThreshold"), 30, 5, 3600) * 1000,
+    minimumSessionDuration:
+      clamp(config.get<number>("minimumSessionDuration"), 5, 0, 600) * 1000,
+    activityDebounce: clamp(
+      config.get<number>("activityDebounce"),
+      300,
+      0,
+      5000
+    ),
+    batchSize: Math.round(clamp(config.get<number>("batchSize"), 10, 1, 1000)),
+    batchTimeout: clamp(config.get<number>("batchTimeout"), 5, 1, 300) * 1000,
+    statusBarRefreshInterval:
+      clamp(config.get<number>("statusBarRefreshInterval"), 10, 1, 300) * 1000,
+    dashboardRefreshInterval:
+      clamp(config.get<number>("dashboardRefreshInterval"), 30, 5, 3600) * 1000,
+    checkpointInterval:
+      clamp(config.get<number>("checkpointInterval"), 30, 5, 600) * 1000,
+    idlePromptThreshold:
+      clamp(config.get<number>("idlePromptThreshold"), 300, 0, 3600) * 1000,
+    // An unknown zone falls back to the system zone rather than failing
+    timeZone: timeZone && isValidTimeZone(timeZone) ? timeZone : undefined,
+    dayStartHour: Math.round(
+      clamp(config.get<number>("dayStartHour"), 0, 0, 23)
+    ),
+    // Invalid expressions are logged and skipped
+    issueKeyPatterns: Array.isArray(issueKeyPatterns)
+      ? issueKeyPatterns.filter(
+          (pattern) => typeof pattern === "string" && isValidPattern(pattern)
+        )
+      : DEFAULT_ISSUE_KEY_PATTERNS,
+    activitySources: {
+      coding: true,
+      reading: isEnabled("reading"),
+      terminal: isEnabled("terminal"),
+      debugging: isEnabled("debugging"),
+      notebook: isEnabled("notebook"),
+      task: isEnabled("task"),
+    },
+    fileExclusions: Array.isArray(fileExclusions)
+      ? fileExclusions.filter(
+          (pattern) => typeof pattern === "string" && pattern.trim()
+        )
+      : DEFAULT_FILE_EXCLUSIONS,
+  };
+}
+
+export function affectsTrackerConfig(
+  event: vscode.ConfigurationChangeEvent
+): boolean {
+  return event.affectsConfiguration(CONFIG_SECTION);
+}
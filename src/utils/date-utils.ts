@@ -0,0 +1,196 @@
+const pad = (value: number) => String(value).padStart(2, "0");
+
+/** `YYYY-MM-DD` of a local date. */
+export function toDateKey(date: Date): string {
+  return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(
+    date.getDate()
+  )}`;
+}
+
+/** Local midnight of a `YYYY-MM-DD` date. */
+export function fromDateKey(key: string): Date {
+  const [year, month, day] = key.split("-").map(Number);
+  return new Date(year, month - 1, day);
+}
+
+export function addDays(date: Date, days: number): Date {
+  const result = new Date(date);
+  result.setDate(result.getDate() + days);
+  return result;
+}
+
+/** Monday of the week containing `date`, at local midnight. */
+export function startOfWeek(date: Date): Date {
+  const result = new Date(date.getFullYear(), date.getMonth(), date.getDate());
+  return addDays(result, -((result.getDay() + 6) % 7));
+}
+
+export function isDateKey(value: string): boolean {
+  return /^\d{4}-\d{2}-\d{2}$/.test(value) && !isNaN(new Date(value).getTime());
+}
+
+const HOUR = 60 * 60 * 1000;
+const DAY = 24 * HOUR;
+
+export interface DayOptions {
+  timeZone?: string; // IANA zone, system zone when undefined
+  dayStartHour: number; // hour a new day begins, for working past midnight
+}
+
+const formatters = new Map<string, Intl.DateTimeFormat>();
+
+const getFormatter = (timeZone?: string): Intl.DateTimeFormat => {
+  const key = timeZone || "";
+  let formatter = formatters.get(key);
+  if (!formatter) {
+    formatter = new Intl.DateTimeFormat("en-US", {
+      timeZone,
+      hourCycle: "h23",
+      year: "numeric",
+      month: "2-digit",
+      day: "2-digit",
+      hour: "2-digit",
+      minute: "2-digit",
+      second: "2-digit",
+    });
+    formatters.set(key, formatter);
+  }
+  return formatter;
+};
+
+export function isValidTimeZone(timeZone: string): boolean {
+  try {
+    new Intl.DateTimeFormat("en-US", { timeZone });
+    return true;
+  } catch (error) {
+    return false;
+  }
+}
+
+/** Wall-clock time in `timeZone`, expressed as if that time were UTC. */
+function toWallClock(timestamp: number, timeZone?: string): number {
+  const parts: { [type: string]: number } = {};
+  getFormatter(timeZone)
+    .formatToParts(new Date(timestamp))
+    .forEach((part) => {
+      parts[part.type] = Number(part.value);
+    });
+
+  return Date.UTC(
+    parts.year,
+    parts.month - 1,
+    parts.day,
+    parts.hour % 24, // some ICU versions report midnight as 24
+    parts.minute,
+    parts.second,
+    timestamp % 1000
+  );
+}
+
+/** Inverse of toWallClock, refined once to land on the right side of DST. */
+function fromWallClock(wallClock: number, timeZone?: string): number {
+  let timestamp = wallClock - (toWallClock(wallClock, timeZone) - wallClock);
+  timestamp = wallClock - (toWallClock(timestamp, timeZone) - timestamp);
+  return timestamp;
+}
+
+/**
+ * Day `timestamp` is booked to: its date in the configured time zone, where
+ * times before `dayStartHour` still belong to the previous day.
+ */
+export function getEntryDate(timestamp: number, options: DayOptions): string {
+  const wallClock =
+    toWallClock(timestamp, options.timeZone) - options.dayStartHour * HOUR;
+  return new Date(wallClock).toISOString().split("T")[0];
+}
+
+/** Timestamp at which the day after the one containing `timestamp` starts. */
+function getNextDayStart(timestamp: number, options: DayOptions): number {
+  const offset = options.dayStartHour * HOUR;
+  const wallClock = toWallClock(timestamp, options.timeZone);
+  const nextStart = Math.floor((wallClock - offset) / DAY) * DAY + DAY + offset;
+
+  const next = fromWallClock(nextStart, options.timeZone);
+  // Guards against DST edge cases ever producing a non-advancing boundary
+  return next > timestamp ? next : timestamp + DAY;
+}
+
+/** Splits [start, end) at day boundaries into per-day pieces. */
+export function splitByDay(
+  start: number,
+  end: number,
+  options: DayOptions
+): { date: string; start: number; end: number }[] {
+  const pieces: { date: string; start: number; end: number }[] = [];
+  let cursor = start;
+
+  do {
+    const pieceEnd = Math.min(end, getNextDayStart(cursor, options));
+    pieces.push({
+      date: getEntryDate(cursor, options),
+      start: cursor,
+      end: pieceEnd,
+    });
+    cursor = pieceEnd;
+  } while (cursor < end);
+
+  return pieces;
+}
+
+/**
+ * Per-day portions of an entry's duration. The recorded duration is spread
+ * in proportion to the wall time falling on each day.
+ */
+export function splitEntryByDay(
+  entry: { startTime: number; endTime: number; duration: number },
+  options: DayOptions
+): { date: string; duration: number }[] {
+  const pieces = splitByDay(entry.startTime, entry.endTime, options);
+  if (pieces.length === 1) {
+    return [{ date: pieces[0].date, duration: entry.duration }];
+  }
+
+  const span = entry.endTime - entry.startTime;
+  let remaining = entry.duration;
+  return pieces.map((piece, index) => {
+    const duration =
+      index === pieces.length - 1
+        ? remaining
+        : Math.round((entry.duration * (piece.end - piece.start)) / span);
+    remaining -= duration;
+    return { date: piece.date, duration };
+  });
+}
+
+/** `YYYY-MM-DD HH:MM` in the given time zone, for display and editing. */
+export function formatDateTime(timestamp: number, timeZone?: string): string {
+  return new Date(toWallClock(timestamp, timeZone))
+    .toISOString()
+    .slice(0, 16)
+    .replace("T", " ");
+}
+
+/** Parses `YYYY-MM-DD HH:MM` as wall-clock time in the given time zone. */
+export function parseDateTime(text: string, timeZone?: string): number | null {
+  const match = /^(\d{4})-(\d{2})-(\d{2})[ T](\d{1,2}):(\d{2})$/.exec(
+    text.trim()
+  );
+  if (!match) {
+    return null;
+  }
+
+  const [year, month, day, hour, minute] = match.slice(1).map(Number);
+  const wallClock = Date.UTC(year, month - 1, day, hour, minute);
+  // Date.UTC rolls over out-of-range parts; treat those as typos
+  const date = new Date(wallClock);
+  if (
+    date.getUTCMonth() !== month - 1 ||
+    date.getUTCDate() !== day ||
+    hour > 23 ||
+    minute > 59
+  ) {
+    return null;
+  }
+
+  return fromWallClock(wallClock, timeZone);
+}
@@ -1,6 +1,6 @@
 export function debounce<T extends (...args: any[]) => any>(
   func: T,
-  wait: number
+  wait: number | (() => number)
 ): (...args: Parameters<T>) => void {
   let timeout: NodeJS.Timeout | null = null;
 
@@ -9,9 +9,10 @@ export function debounce<T extends (...args: any[]) => any>(
       clearTimeout(timeout);
     }
 
+    const delay = typeof wait === "function" ? wait() : wait;
     timeout = setTimeout(() => {
       func(...args);
       timeout = null;
-    }, wait);
+    }, delay);
   };
 }
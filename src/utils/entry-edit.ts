@@ -0,0 +1,152 @@
+import { TimeEntry } from "../interfaces/time-tracker";
+import { DayOptions, getEntryDate } from "./date-utils";
+import { scaleSources, sumSources } from "./activity-sources";
+import { scaleFiles, summarizeFiles } from "./file-breakdown";
+
+export interface EntryFields {
+  repository: string;
+  repositoryName?: string;
+  branch: string;
+  startTime: number;
+  endTime: number;
+}
+
+/** A hand-made entry covering [startTime, endTime). */
+export function createManualEntry(
+  fields: EntryFields,
+  days: DayOptions
+): TimeEntry {
+  return {
+    date: getEntryDate(fields.startTime, days),
+    repository: fields.repository,
+    ...(fields.repositoryName && { repositoryName: fields.repositoryName }),
+    branch: fields.branch,
+    duration: Math.floor((fields.endTime - fields.startTime) / 1000),
+    startTime: fields.startTime,
+    endTime: fields.endTime,
+    manual: true,
+  };
+}
+
+/**
+ * Applies edited fields to an entry. The git state, idle marker and the
+ * sources and files breakdowns (scaled to the new duration) only survive
+ * if the session stays on the same repository and branch, the worktree if
+ * it stays in the same repository.
+ */
+export function editEntry(
+  entry: TimeEntry,
+  fields: EntryFields,
+  days: DayOptions
+): TimeEntry {
+  const sameBranch =
+    fields.repository === entry.repository && fields.branch === entry.branch;
+  const edited = createManualEntry(fields, days);
+  return {
+    ...edited,
+    ...(sameBranch && entry.gitState && { gitState: entry.gitState }),
+    ...(sameBranch && entry.idle && { idle: entry.idle }),
+    ...(sameBranch &&
+      entry.sources && {
+        sources: scaleSources(entry.sources, edited.duration),
+      }),
+    ...(sameBranch &&
+      entry.files && {
+        files: scaleFiles(entry.files, edited.duration, entry.duration),
+      }),
+    ...(fields.repository === entry.repository &&
+      entry.worktree && { worktree: entry.worktree }),
+  };
+}
+
+/**
+ * Splits an entry at `at`. The recorded duration, and its sources and
+ * files, are shared in proportion to the wall time on each side, the second
+ * part can go to another branch.
+ */
+export function splitEntry(
+  entry: TimeEntry,
+  at: number,
+  secondBranch: string,
+  days: DayOptions
+): [TimeEntry, TimeEntry] {
+  const first = Math.round(
+    (entry.duration * (at - entry.startTime)) /
+      (entry.endTime - entry.startTime)
+  );
+  const second: TimeEntry = {
+    ...entry,
+    date: getEntryDate(at, days),
+    branch: secondBranch,
+    duration: entry.duration - first,
+    startTime: at,
+    manual: true,
+    ...(entry.sources && {
+      sources: scaleSources(entry.sources, entry.duration - first),
+    }),
+    ...(entry.files && {
+      files: scaleFiles(entry.files, entry.duration - first, entry.duration),
+    }),
+  };
+  if (secondBranch !== entry.branch) {
+    delete second.gitState;
+  }
+
+  return [
+    {
+      ...entry,
+      duration: first,
+      endTime: at,
+      manual: true,
+      ...(entry.sources && {
+        sources: scaleSources(entry.sources, first),
+      }),
+      ...(entry.files && {
+        files: scaleFiles(entry.files, first, entry.duration),
+      }),
+    },
+    second,
+  ];
+}
+
+/**
+ * Joins sessions on one repository and branch into a single entry. The
+ * gaps between them were not tracked, so only their durations add up.
+ */
+export function mergeEntries(
+  entries: TimeEntry[],
+  days: DayOptions
+): TimeEntry {
+  const sorted = [...entries].sort((a, b) => a.startTime - b.startTime);
+  const first = sorted[0];
+  const gitState = sorted.every((entry) => entry.gitState === first.gitState)
+    ? first.gitState
+    : undefined;
+
+  const merged: TimeEntry = {
+    ...first,
+    date: getEntryDate(first.startTime, days),
+    duration: sorted.reduce((sum, entry) => sum + entry.duration, 0),
+    endTime: sorted.reduce((end, entry) => Math.max(end, entry.endTime), 0),
+    manual: true,
+  };
+  if (!gitState) {
+    delete merged.gitState;
+  }
+  if (!sorted.every((entry) => entry.worktree === first.worktree)) {
+    delete merged.worktree;
+  }
+  // A partial breakdown would no longer add up to the duration
+  if (sorted.every((entry) => entry.sources)) {
+    merged.sources = sumSources(sorted.map((entry) => entry.sources));
+  } else {
+    delete merged.sources;
+  }
+  const files = summarizeFiles(sorted, []).files;
+  if (files.length > 0) {
+    merged.files = files;
+  } else {
+    delete merged.files;
+  }
+  return merged;
+}
@@ -0,0 +1,137 @@
+import {
+  TimeEntry,
+  ImportConflict,
+  MergeResult,
+} from "../interfaces/time-tracker";
+import { DayOptions, getEntryDate } from "./date-utils";
+import { scaleSources } from "./activity-sources";
+import { scaleFiles } from "./file-breakdown";
+
+const branchKey = (entry: TimeEntry) => `${entry.repository}|${entry.branch}`;
+
+/**
+ * Cuts the parts of [start, end) already covered by `existing` out of it.
+ * `existing` must be sorted by startTime.
+ */
+function subtractCovered(
+  start: number,
+  end: number,
+  existing: TimeEntry[]
+): [number, number][] {
+  const pieces: [number, number][] = [];
+  let cursor = start;
+
+  for (const entry of existing) {
+    if (entry.endTime <= cursor) {
+      continue;
+    }
+    if (entry.startTime >= end) {
+      break;
+    }
+    if (entry.startTime > cursor) {
+      pieces.push([cursor, entry.startTime]);
+    }
+    cursor = Math.max(cursor, entry.endTime);
+  }
+  if (cursor < end) {
+    pieces.push([cursor, end]);
+  }
+
+  return pieces;
+}
+
+/**
+ * Works out which imported sessions to add on top of `existing`. Sessions
+ * on the same repository and branch that are already fully covered are
+ * duplicates; partial overlaps are conflicts and only the uncovered parts
+ * are added.
+ */
+export function mergeImportedEntries(
+  existing: TimeEntry[],
+  imported: TimeEntry[],
+  days: DayOptions
+): MergeResult {
+  const byBranch = new Map<string, TimeEntry[]>();
+  existing.forEach((entry) => {
+    const key = branchKey(entry);
+    const entries = byBranch.get(key);
+    if (entries) {
+      entries.push(entry);
+    } else {
+      byBranch.set(key, [entry]);
+    }
+  });
+  byBranch.forEach((entries) =>
+    entries.sort((a, b) => a.startTime - b.startTime)
+  );
+
+  const added: TimeEntry[] = [];
+  const conflicts: ImportConflict[] = [];
+  let duplicates = 0;
+
+  [...imported]
+    .sort((a, b) => a.startTime - b.startTime)
+    .forEach((entry) => {
+      const key = branchKey(entry);
+      const sameBranch = byBranch.get(key) || [];
+      const pieces = subtractCovered(
+        entry.startTime,
+        entry.endTime,
+        sameBranch
+      );
+
+      if (pieces.length === 0) {
+        duplicates++;
+        return;
+      }
+
+      // Keep the original duration when nothing overlapped, it may be less
+      // than endTime - startTime
+      const untouched =
+        pieces.length === 1 &&
+        pieces[0][0] === entry.startTime &&
+        pieces[0][1] === entry.endTime;
+
+      const newEntries: TimeEntry[] = untouched
+        ? [entry]
+        : pieces.map(([start, end]) => ({
+            ...entry,
+            date: getEntryDate(start, days),
+            startTime: start,
+            endTime: end,
+            duration: Math.floor((end - start) / 1000),
+            ...(entry.sources && {
+              sources: scaleSources(
+                entry.sources,
+                Math.floor((end - start) / 1000)
+              ),
+            }),
+            ...(entry.files && {
+              files: scaleFiles(
+                entry.files,
+                Math.floor((end - start) / 1000),
+                entry.duration
+              ),
+            }),
+          }));
+
+      if (!untouched) {
+        conflicts.push({
+          imported: entry,
+          existing: sameBranch.filter(
+            (other) =>
+              other.startTime < entry.endTime && other.endTime > entry.startTime
+          ),
+          kept: newEntries.reduce((sum, piece) => sum + piece.duration, 0),
+        });
+      }
+
+      added.push(...newEntries);
+      byBranch.set(
+        key,
+        [...sameBranch, ...newEntries].sort((a, b) => a.startTime - b.startTime)
+      );
+    });
+
+  return { added, duplicates, conflicts };
+}
@@ -0,0 +1,293 @@
+import * as crypto from "crypto";
+import { TimeEntry } from "../interfaces/time-tracker";
+import { summarizeByIssue } from "./issue-keys";
+import { SCHEMA_VERSION } from "./time-entry-schema";
+import { DayOptions, getEntryDate, splitEntryByDay } from "./date-utils";
+import { summarizeFiles } from "./file-breakdown";
+
+export type RepositoryLabels = { [repository: string]: string };
+
+// Identifies files written by exportJson, so they can be imported elsewhere
+export const EXPORT_FORMAT = "git-branch-time-tracker";
+
+const csvField = (value: string | number): string => {
+  const text = String(value);
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+const csvRows = (rows: (string | number)[][]): string =>
+  rows.map((row) => row.map(csvField).join(",")).join("\r\n") + "\r\n";
+
+const repositoryLabel = (entry: TimeEntry, labels: RepositoryLabels) =>
+  labels[entry.repository] || entry.repositoryName || entry.repository;
+
+const hours = (seconds: number): string => (seconds / 3600).toFixed(2);
+
+/** One row per session. */
+export function toSessionCsv(
+  entries: TimeEntry[],
+  labels: RepositoryLabels,
+  days: DayOptions
+): string {
+  return csvRows([
+    [
+      "date",
+      "repository",
+      "repository_id",
+      "branch",
+      "git_state",
+      "start",
+      "end",
+      "duration_seconds",
+      "duration_hours",
+      "manual",
+      "worktree",
+    ],
+    ...entries.map((entry) => [
+      getEntryDate(entry.startTime, days),
+      repositoryLabel(entry, labels),
+      entry.repository,
+      entry.branch,
+      entry.gitState || "branch",
+      new Date(entry.startTime).toISOString(),
+      new Date(entry.endTime).toISOString(),
+      entry.duration,
+      hours(entry.duration),
+      entry.manual ? "yes" : "no",
+      entry.worktree || "",
+    ]),
+  ]);
+}
+
+/**
+ * One row per issue key found in branch names, summed across branches and
+ * repositories. Sessions on branches without a key are left out.
+ */
+export function toIssueCsv(
+  entries: TimeEntry[],
+  labels: RepositoryLabels,
+  patterns: string[]
+): string {
+  return csvRows([
+    ["issue_key", "branches", "sessions", "duration_seconds", "duration_hours"],
+    ...summarizeByIssue(entries, patterns)
+      .sort((a, b) => a.key.localeCompare(b.key))
+      .map((issue) => [
+        issue.key,
+        issue.branches
+          .map(
+            ({ repository, branch }) =>
+              `${labels[repository] || repository}/${branch}`
+          )
+          .join("; "),
+        issue.sessions,
+        issue.duration,
+        hours(issue.duration),
+      ]),
+  ]);
+}
+
+/**
+ * One row per day, repository and branch. Sessions crossing a day boundary
+ * contribute to every day they touch; days outside `range` are left out.
+ */
+export function toDailyCsv(
+  entries: TimeEntry[],
+  labels: RepositoryLabels,
+  days: DayOptions,
+  range: { from: string | null; to: string | null }
+): string {
+  const totals = new Map<
+    string,
+    { date: string; entry: TimeEntry; sessions: number; duration: number }
+  >();
+
+  entries.forEach((entry) => {
+    splitEntryByDay(entry, days).forEach(({ date, duration }) => {
+      if ((range.from && date < range.from) || (range.to && date > range.to)) {
+        return;
+      }
+      const key = `${date}|${entry.repository}|${entry.branch}`;
+      const total = totals.get(key) || {
+        date,
+        entry,
+        sessions: 0,
+        duration: 0,
+      };
+      total.sessions++;
+      total.duration += duration;
+      totals.set(key, total);
+    });
+  });
+
+  const rows = Array.from(totals.values()).sort(
+    (a, b) =>
+      a.date.localeCompare(b.date) ||
+      a.entry.repository.localeCompare(b.entry.repository) ||
+      a.entry.branch.localeCompare(b.entry.branch)
+  );
+
+  return csvRows([
+    [
+      "date",
+      "repository",
+      "repository_id",
+      "branch",
+      "sessions",
+      "duration_seconds",
+      "duration_hours",
+    ],
+    ...rows.map(({ date, entry, sessions, duration }) => [
+      date,
+      repositoryLabel(entry, labels),
+      entry.repository,
+      entry.branch,
+      sessions,
+      duration,
+      hours(duration),
+    ]),
+  ]);
+}
+
+/**
+ * One row per repository, branch and file. Only time spent with a file of
+ * the repository open is included; files matching `exclusions` are left
+ * out.
+ */
+export function toFileCsv(
+  entries: TimeEntry[],
+  labels: RepositoryLabels,
+  exclusions: string[]
+): string {
+  const branches = new Map<string, TimeEntry[]>();
+  entries.forEach((entry) => {
+    const key = `${entry.repository}|${entry.branch}`;
+    const branchEntries = branches.get(key);
+    if (branchEntries) {
+      branchEntries.push(entry);
+    } else {
+      branches.set(key, [entry]);
+    }
+  });
+
+  const rows: (string | number)[][] = [];
+  Array.from(branches.values())
+    .sort(
+      (a, b) =>
+        a[0].repository.localeCompare(b[0].repository) ||
+        a[0].branch.localeCompare(b[0].branch)
+    )
+    .forEach((branchEntries) => {
+      const entry = branchEntries[0];
+      summarizeFiles(branchEntries, exclusions).files.forEach((file) =>
+        rows.push([
+          repositoryLabel(entry, labels),
+          entry.repository,
+          entry.branch,
+          file.path,
+          file.language,
+          file.duration,
+          hours(file.duration),
+        ])
+      );
+    });
+
+  return csvRows([
+    [
+      "repository",
+      "repository_id",
+      "branch",
+      "path",
+      "language",
+      "duration_seconds",
+      "duration_hours",
+    ],
+    ...rows,
+  ]);
+}
+
+export function toJson(
+  entries: TimeEntry[],
+  range: { from: string | null; to: string | null }
+): string {
+  return JSON.stringify(
+    {
+      format: EXPORT_FORMAT,
+      version: SCHEMA_VERSION,
+      exportedAt: new Date().toISOString(),
+      range,
+      entries,
+    },
+    null,
+    2
+  );
+}
+
+const icsDate = (timestamp: number): string =>
+  new Date(timestamp).toISOString().replace(/[-:]/g, "").replace(/\.\d+/, "");
+
+const icsText = (text: string): string =>
+  text.replace(/[\\;,]/g, (char) => `\\${char}`).replace(/\r?\n/g, "\\n");
+
+// RFC 5545 limits content lines to 75 octets; continuation lines start with
+// a space
+const foldLine = (line: string): string => {
+  const parts: string[] = [];
+  let current = "";
+  let currentBytes = 0;
+
+  for (const char of line) {
+    const bytes = Buffer.byteLength(char);
+    const limit = parts.length === 0 ? 75 : 74;
+    if (currentBytes + bytes > limit) {
+      parts.push(current);
+      current = "";
+      currentBytes = 0;
+    }
+    current += char;
+    currentBytes += bytes;
+  }
+  parts.push(current);
+
+  return parts.join("\r\n ");
+};
+
+/** A calendar with one event per session. */
+export function toICalendar(
+  entries: TimeEntry[],
+  labels: RepositoryLabels
+): string {
+  const now = icsDate(Date.now());
+  const lines = [
+    "BEGIN:VCALENDAR",
+    "VERSION:2.0",
+    "PRODID:-//Git Branch Time Tracker//EN",
+    "CALSCALE:GREGORIAN",
+  ];
+
+  entries.forEach((entry) => {
+    const repository = repositoryLabel(entry, labels);
+    const uid = crypto
+      .createHash("sha1")
+      .update(`${entry.repository}|${entry.branch}|${entry.startTime}`)
+      .digest("hex");
+
+    lines.push(
+      "BEGIN:VEVENT",
+      `UID:${uid}@git-branch-time-tracker`,
+      `DTSTAMP:${now}`,
+      `DTSTART:${icsDate(entry.startTime)}`,
+      `DTEND:${icsDate(entry.endTime)}`,
+      `SUMMARY:${icsText(`${repository}: ${entry.branch}`)}`,
+      `DESCRIPTION:${icsText(
+        `Repository: ${entry.repository}\nBranch: ${
+          entry.branch
+        }\nTracked: ${hours(entry.duration)}h`
+      )}`,
+      "END:VEVENT"
+    );
+  });
+
+  lines.push("END:VCALENDAR");
+  return lines.map(foldLine).join("\r\n") + "\r\n";
+}
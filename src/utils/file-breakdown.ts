@@ -0,0 +1,156 @@
+import { FileTime } from "../interfaces/time-tracker";
+
+// Dependencies, build output and lock files; time there isn't interesting
+export const DEFAULT_FILE_EXCLUSIONS = [
+  "**/node_modules/**",
+  "**/dist/**",
+  "**/out/**",
+  "**/build/**",
+  "**/generated/**",
+  "**/*.generated.*",
+  "**/*.min.*",
+  "**/*.map",
+  "**/package-lock.json",
+  "**/yarn.lock",
+  "**/pnpm-lock.yaml",
+];
+
+export interface FileBreakdown {
+  files: FileTime[]; // most time first
+  directories: { path: string; duration: number }[];
+  languages: { language: string; duration: number }[];
+}
+
+const compiled = new Map<string, RegExp>();
+
+/**
+ * Glob as used in VS Code settings: `**` spans directories, `*` and `?`
+ * stay within one path segment, `{a,b}` matches either alternative.
+ */
+export function globToRegExp(glob: string): RegExp {
+  let regExp = compiled.get(glob);
+  if (!regExp) {
+    let source = "";
+    let inGroup = false;
+    for (let i = 0; i < glob.length; i++) {
+      const char = glob[i];
+      if (char === "*" && glob[i + 1] === "*") {
+        // `**/` also matches no directory at all
+        const slash = glob[i + 2] === "/";
+        source += slash ? "(?:.*/)?" : ".*";
+        i += slash ? 2 : 1;
+      } else if (char === "*") {
+        source += "[^/]*";
+      } else if (char === "?") {
+        source += "[^/]";
+      } else if (char === "{" && !inGroup) {
+        inGroup = true;
+        source += "(?:";
+      } else if (char === "}" && inGroup) {
+        inGroup = false;
+        source += ")";
+      } else if (char === "," && inGroup) {
+        source += "|";
+      } else {
+        source += char.replace(/[.+^$()|[\]\\{}]/g, "\\$&");
+      }
+    }
+    regExp = new RegExp(`^${source}$`);
+    compiled.set(glob, regExp);
+  }
+  return regExp;
+}
+
+/** Whether a path relative to the repository root matches a pattern. */
+export function isExcludedFile(path: string, patterns: string[]): boolean {
+  return patterns.some((pattern) => globToRegExp(pattern).test(path));
+}
+
+/** Adds time to a file in place. */
+export function addFileTime(
+  files: FileTime[],
+  file: { path: string; language: string },
+  amount: number
+) {
+  if (amount <= 0) {
+    return;
+  }
+  const existing = files.find(({ path }) => path === file.path);
+  if (existing) {
+    existing.language = file.language;
+    existing.duration += amount;
+  } else {
+    files.push({ ...file, duration: amount });
+  }
+}
+
+/** Rounds credited milliseconds to seconds, dropping what rounds to 0. */
+export function toFileSeconds(files: FileTime[]): FileTime[] {
+  return files
+    .map((file) => ({ ...file, duration: Math.round(file.duration / 1000) }))
+    .filter(({ duration }) => duration > 0)
+    .sort((a, b) => b.duration - a.duration);
+}
+
+/** The share of an entry's file times in `duration` of its `entryDuration`. */
+export function scaleFiles(
+  files: FileTime[],
+  duration: number,
+  entryDuration: number
+): FileTime[] {
+  return files
+    .map((file) => ({
+      ...file,
+      duration:
+        entryDuration > 0
+          ? Math.round((file.duration * duration) / entryDuration)
+          : 0,
+    }))
+    .filter((file) => file.duration > 0);
+}
+
+const directoryOf = (path: string) => {
+  const separator = path.lastIndexOf("/");
+  return separator >= 0 ? path.slice(0, separator) : ".";
+};
+
+/**
+ * Time per file, directory and language over a set of entries. Files
+ * matching `exclusions` are left out, so patterns added later also apply
+ * to time already tracked.
+ */
+export function summarizeFiles(
+  entries: { files?: FileTime[] }[],
+  exclusions: string[]
+): FileBreakdown {
+  const files: FileTime[] = [];
+  const directories = new Map<string, number>();
+  const languages = new Map<string, number>();
+  entries.forEach((entry) =>
+    (entry.files || []).forEach((file) => {
+      if (isExcludedFile(file.path, exclusions)) {
+        return;
+      }
+      addFileTime(files, file, file.duration);
+      const directory = directoryOf(file.path);
+      directories.set(
+        directory,
+        (directories.get(directory) || 0) + file.duration
+      );
+      languages.set(
+        file.language,
+        (languages.get(file.language) || 0) + file.duration
+      );
+    })
+  );
+
+  return {
+    files: files.sort((a, b) => b.duration - a.duration),
+    directories: Array.from(directories.entries())
+      .map(([path, duration]) => ({ path, duration }))
+      .sort((a, b) => b.duration - a.duration),
+    languages: Array.from(languages.entries())
+      .map(([language, duration]) => ({ language, duration }))
+      .sort((a, b) => b.duration - a.duration),
+  };
+}
@@ -1,37 +1,571 @@
-import { exec } from "child_process";
+import { exec, execFile } from "child_process";
 import { promisify } from "util";
 import * as path from "path";
+import * as fs from "fs";
+import {
+  RepositoryInfo,
+  BranchInfo,
+  GitState,
+  CommitInfo,
+  BranchRename,
+} from "../interfaces/time-tracker";
 
 const execAsync = promisify(exec);
+const execFileAsync = promisify(execFile);
 
+/**
+ * The innermost repository containing `workspacePath`, which may be a file
+ * or directory: a submodule or nested repository rather than the one
+ * around it. Linked worktrees share the id and name of their main worktree
+ * and are told apart by `root` and `worktree`.
+ */
 export async function getCurrentRepository(
   workspacePath: string
-): Promise<string | null> {
+): Promise<RepositoryInfo | null> {
   try {
-    const { stdout } = await execAsync("git rev-parse --show-toplevel", {
-      cwd: workspacePath,
+    const cwd = await toDirectory(workspacePath);
+    const { stdout } = await execAsync(
+      "git rev-parse --show-toplevel --absolute-git-dir --git-common-dir",
+      { cwd, timeout: 5000 }
+    );
+    const [topLevel, gitDir, commonDir] = stdout.trim().split(/\r?\n/);
+    const repoPath = path.resolve(topLevel);
+    const mainPath = getMainWorktreePath(
+      repoPath,
+      gitDir,
+      path.resolve(cwd, commonDir)
+    );
+    const remoteUrl = await getRemoteUrl(repoPath);
+    const normalizedRemote = remoteUrl ? normalizeRemoteUrl(remoteUrl) : null;
+
+    return {
+      id: normalizedRemote || mainPath.replace(/\\/g, "/"),
+      name: path.basename(mainPath),
+      root: repoPath,
+      ...(mainPath !== repoPath && { worktree: path.basename(repoPath) }),
+    };
+  } catch (error) {
+    console.log("Not a git repository:", workspacePath);
+    return null;
+  }
+}
+
+/** git runs in a directory; files are resolved from the one they're in. */
+async function toDirectory(fsPath: string): Promise<string> {
+  try {
+    const stat = await fs.promises.stat(fsPath);
+    return stat.isDirectory() ? fsPath : path.dirname(fsPath);
+  } catch (error) {
+    return path.dirname(fsPath);
+  }
+}
+
+/**
+ * Root of the main worktree, given those of the current one. The common
+ * directory of a linked worktree is the main worktree's `.git`; for
+ * submodules it is inside the superproject's `.git/modules` and stands in
+ * for the root.
+ */
+function getMainWorktreePath(
+  root: string,
+  gitDir: string,
+  commonDir: string
+): string {
+  if (path.resolve(gitDir) === commonDir) {
+    return root;
+  }
+  return path.basename(commonDir) === ".git"
+    ? path.dirname(commonDir)
+    : commonDir;
+}
+
+async function getRemoteUrl(repoPath: string): Promise<string | null> {
+  try {
+    const { stdout } = await execAsync("git config --get remote.origin.url", {
+      cwd: repoPath,
       timeout: 5000,
     });
-    const repoPath = stdout.trim();
-    return path.basename(repoPath);
+    return stdout.trim() || null;
   } catch (error) {
-    console.log("Not a git repository:", workspacePath);
+    // No origin remote configured
+    return null;
+  }
+}
+
+/**
+ * Reduces the different spellings of a remote to `host/owner/repo`, so that
+ * `git@github.com:owner/repo.git` and `https://user@github.com/owner/repo`
+ * map to the same repository.
+ */
+export function normalizeRemoteUrl(url: string): string | null {
+  let normalized = url.trim();
+
+  const scpLike = normalized.match(/^(?:[^@/]+@)?([^:/]+):(?!\/)(.+)$/);
+  // A single-letter "host" is a Windows drive, not an scp-style remote
+  if (scpLike && scpLike[1].length > 1) {
+    normalized = `${scpLike[1]}/${scpLike[2]}`;
+  } else {
+    const withProtocol = normalized.match(/^[a-z][a-z0-9+.-]*:\/\/(.+)$/i);
+    if (!withProtocol) {
+      return null;
+    }
+    // Drop credentials and port
+    normalized = withProtocol[1]
+      .replace(/^[^@/]+@/, "")
+      .replace(/^([^/:]+):\d+/, "$1");
+  }
+
+  normalized = normalized
+    .replace(/\\/g, "/")
+    .replace(/\.git\/?$/, "")
+    .replace(/\/+$/, "");
+
+  const [host, ...rest] = normalized.split("/");
+  if (!host || rest.length === 0) {
     return null;
   }
+
+  return [host.toLowerCase(), ...rest].join("/");
+}
+
+/**
+ * Short suffix used to tell apart repositories that share a basename:
+ * `owner/repo` for remotes, the parent directory for local-only clones.
+ */
+export function getRepositoryQualifier(repositoryId: string): string {
+  const isPath = /^(\/|[a-zA-Z]:\/)/.test(repositoryId);
+  const segments = repositoryId.split("/").filter(Boolean);
+
+  if (isPath) {
+    return segments.length > 1 ? segments[segments.length - 2] : repositoryId;
+  }
+  return segments.slice(1).join("/") || repositoryId;
+}
+
+/**
+ * Checks out `branch`; rejects with git's message if that fails. Names come
+ * from stored, imported or hand-entered data, so anything git wouldn't
+ * accept as a branch name (e.g. starting with `-`, which would be read as
+ * an option) is refused first.
+ */
+export async function checkoutBranch(
+  repositoryRoot: string,
+  branch: string
+): Promise<void> {
+  let isValid = false;
+  try {
+    // Prints the name back, unless it is shorthand such as @{-1}
+    const { stdout } = await execFileAsync(
+      "git",
+      ["check-ref-format", "--branch", branch],
+      { cwd: repositoryRoot, timeout: 5000 }
+    );
+    isValid = stdout.trim() === branch;
+  } catch (error) {
+    // Not a valid branch name
+  }
+  if (!isValid) {
+    throw new Error(`"${branch}" is not a valid branch name.`);
+  }
+
+  try {
+    // `--` so that a branch is never taken for a path
+    await execFileAsync("git", ["checkout", branch, "--"], {
+      cwd: repositoryRoot,
+      timeout: 15000,
+    });
+  } catch (error: any) {
+    throw new Error((error.stderr || error.message || String(error)).trim());
+  }
 }
 
 export async function getCurrentBranch(
   workspacePath: string
-): Promise<string | null> {
+): Promise<BranchInfo | null> {
   try {
     const { stdout } = await execAsync("git branch --show-current", {
       cwd: workspacePath,
       timeout: 5000,
     });
     const branch = stdout.trim();
-    return branch || "main";
+    const gitDir = await getGitDir(workspacePath);
+
+    if (gitDir) {
+      const special = await getInProgressOperation(gitDir, branch, () =>
+        getDetachedName(gitDir)
+      );
+      if (special) {
+        return special;
+      }
+    }
+
+    if (branch) {
+      return { name: branch, state: "branch" };
+    }
+
+    return { name: await getDetachedName(workspacePath), state: "detached" };
   } catch (error) {
     console.log("Could not get current branch:", workspacePath);
     return null;
   }
 }
+
+/**
+ * Latest `count` commits reachable from `ref`, newest first, optionally
+ * only those by `authorEmail`. Empty if the ref does not exist.
+ */
+export async function getCommitLog(
+  repositoryRoot: string,
+  ref: string,
+  count: number,
+  authorEmail?: string
+): Promise<CommitInfo[]> {
+  try {
+    const { stdout } = await execFileAsync(
+      "git",
+      [
+        "log",
+        `--max-count=${count}`,
+        "--format=%H%x1f%h%x1f%ct%x1f%s",
+        ...(authorEmail ? [`--author=<${authorEmail}>`] : []),
+        ref,
+        "--",
+      ],
+      { cwd: repositoryRoot, timeout: 10000, maxBuffer: 4 * 1024 * 1024 }
+    );
+    return stdout
+      .split("\n")
+      .filter((line) => line.trim())
+      .map((line) => {
+        const [hash, shortHash, timestamp, subject] = line.split("\x1f");
+        return {
+          hash,
+          shortHash,
+          timestamp: Number(timestamp) * 1000,
+          subject: subject || "",
+        };
+      });
+  } catch (error) {
+    console.log("Could not read commit log:", repositoryRoot, ref);
+    return [];
+  }
+}
+
+export async function getUserEmail(
+  repositoryRoot: string
+): Promise<string | null> {
+  try {
+    const { stdout } = await execAsync("git config --get user.email", {
+      cwd: repositoryRoot,
+      timeout: 5000,
+    });
+    return stdout.trim() || null;
+  } catch (error) {
+    return null;
+  }
+}
+
+/** Hooks directory, honouring core.hooksPath. */
+export async function getHooksDir(
+  repositoryRoot: string
+): Promise<string | null> {
+  try {
+    const { stdout } = await execAsync("git rev-parse --git-path hooks", {
+      cwd: repositoryRoot,
+      timeout: 5000,
+    });
+    return stdout.trim() ? path.resolve(repositoryRoot, stdout.trim()) : null;
+  } catch (error) {
+    return null;
+  }
+}
+
+/**
+ * The core.hooksPath setting, resolved against the repository root, or
+ * null when hooks live in the git directory.
+ */
+export async function getHooksPathSetting(
+  repositoryRoot: string
+): Promise<string | null> {
+  try {
+    const { stdout } = await execAsync("git config --get core.hooksPath", {
+      cwd: repositoryRoot,
+      timeout: 5000,
+    });
+    return stdout.trim() ? path.resolve(repositoryRoot, stdout.trim()) : null;
+  } catch (error) {
+    return null;
+  }
+}
+
+const refNames = async (
+  repositoryRoot: string,
+  pattern: string,
+  format: string
+): Promise<string[]> => {
+  const { stdout } = await execFileAsync(
+    "git",
+    ["for-each-ref", `--format=${format}`, pattern],
+    { cwd: repositoryRoot, timeout: 10000, maxBuffer: 4 * 1024 * 1024 }
+  );
+  return stdout.split("\n").filter(Boolean);
+};
+
+export function getLocalBranches(repositoryRoot: string): Promise<string[]> {
+  return refNames(repositoryRoot, "refs/heads", "%(refname:short)");
+}
+
+/** Remote branch names without the remote, e.g. main for origin/main. */
+export function getRemoteBranches(repositoryRoot: string): Promise<string[]> {
+  return refNames(repositoryRoot, "refs/remotes", "%(refname:lstrip=3)");
+}
+
+/**
+ * Ref that work gets merged into: what origin/HEAD points at, or a local
+ * main/master when there is no remote. Null if neither exists.
+ */
+export async function getDefaultBranch(
+  repositoryRoot: string
+): Promise<string | null> {
+  try {
+    const { stdout } = await execAsync(
+      "git symbolic-ref --short refs/remotes/origin/HEAD",
+      { cwd: repositoryRoot, timeout: 5000 }
+    );
+    if (stdout.trim()) {
+      return stdout.trim();
+    }
+  } catch (error) {
+    // No remote HEAD, fall back to the conventional local names
+  }
+
+  const local = await getLocalBranches(repositoryRoot).catch(
+    () => [] as string[]
+  );
+  return ["main", "master"].find((name) => local.includes(name)) || null;
+}
+
+/** Local branches whose tips are reachable from `ref`. */
+export async function getMergedBranches(
+  repositoryRoot: string,
+  ref: string
+): Promise<string[]> {
+  const { stdout } = await execFileAsync(
+    "git",
+    ["branch", "--merged", ref, "--format=%(refname:short)"],
+    { cwd: repositoryRoot, timeout: 10000, maxBuffer: 4 * 1024 * 1024 }
+  );
+  return stdout.split("\n").filter(Boolean);
+}
+
+/**
+ * Whether the local `branch` points at a commit of its own rather than at
+ * one on the first-parent history of `ref`, where a branch created from
+ * `ref` and never committed to points. Fast-forward merges look the same.
+ */
+export async function hasOwnCommits(
+  repositoryRoot: string,
+  branch: string,
+  ref: string
+): Promise<boolean> {
+  try {
+    const options = { cwd: repositoryRoot, timeout: 10000 };
+    const { stdout: tip } = await execFileAsync(
+      "git",
+      ["rev-parse", "--verify", "--quiet", `refs/heads/${branch}^{commit}`],
+      options
+    );
+    // Walks `ref` back only until the history of the tip's parents
+    const { stdout } = await execFileAsync(
+      "git",
+      ["rev-list", "--first-parent", ref, "--not", `${tip.trim()}^@`],
+      { ...options, maxBuffer: 16 * 1024 * 1024 }
+    );
+    return !stdout.split("\n").includes(tip.trim());
+  } catch (error) {
+    return false;
+  }
+}
+
+/**
+ * Renames recorded by `git branch -m` in the reflogs, oldest first. Reflogs
+ * expire, so only fairly recent renames are found.
+ */
+export async function getBranchRenames(
+  repositoryRoot: string
+): Promise<BranchRename[]> {
+  try {
+    const { stdout } = await execAsync("git rev-parse --git-common-dir", {
+      cwd: repositoryRoot,
+      timeout: 5000,
+    });
+    const logsDir = path.resolve(repositoryRoot, stdout.trim(), "logs");
+
+    const files: string[] = [path.join(logsDir, "HEAD")];
+    const walk = async (dir: string) => {
+      const children = await fs.promises
+        .readdir(dir, { withFileTypes: true })
+        .catch(() => []);
+      for (const child of children) {
+        const childPath = path.join(dir, child.name);
+        if (child.isDirectory()) {
+          await walk(childPath);
+        } else {
+          files.push(childPath);
+        }
+      }
+    };
+    await walk(path.join(logsDir, "refs", "heads"));
+
+    // A rename shows up in the branch's own log and in HEAD's if current
+    const renames = new Map<string, BranchRename>();
+    for (const file of files) {
+      const text = await fs.promises.readFile(file, "utf8").catch(() => "");
+      text.split("\n").forEach((line) => {
+        const match =
+          /^\S+ \S+ .*? (\d+) [+-]\d{4}\tBranch: renamed refs\/heads\/(.+) to refs\/heads\/(.+)$/.exec(
+            line
+          );
+        if (match) {
+          const rename = {
+            from: match[2],
+            to: match[3],
+            timestamp: Number(match[1]) * 1000,
+          };
+          renames.set(
+            `${rename.from}|${rename.to}|${rename.timestamp}`,
+            rename
+          );
+        }
+      });
+    }
+    return Array.from(renames.values()).sort(
+      (a, b) => a.timestamp - b.timestamp
+    );
+  } catch (error) {
+    console.log("Could not read branch renames:", repositoryRoot);
+    return [];
+  }
+}
+
+export async function getGitDir(workspacePath: string): Promise<string | null> {
+  try {
+    // Resolves to the per-worktree directory for linked worktrees
+    const { stdout } = await execAsync("git rev-parse --absolute-git-dir", {
+      cwd: workspacePath,
+      timeout: 5000,
+    });
+    return stdout.trim() || null;
+  } catch (error) {
+    return null;
+  }
+}
+
+async function readGitFile(
+  gitDir: string,
+  ...segments: string[]
+): Promise<string | null> {
+  try {
+    const content = await fs.promises.readFile(
+      path.join(gitDir, ...segments),
+      "utf8"
+    );
+    return content.trim();
+  } catch (error) {
+    return null;
+  }
+}
+
+const stripHeadsPrefix = (ref: string): string =>
+  ref.replace(/^refs\/heads\//, "");
+
+/**
+ * Detects rebase, merge, cherry-pick, revert and bisect by the marker files
+ * git leaves in the git directory. During a rebase the branch being rebased
+ * is recorded in `head-name`, so time is still booked to that branch.
+ */
+async function getInProgressOperation(
+  gitDir: string,
+  currentBranch: string,
+  detachedName: () => Promise<string>
+): Promise<BranchInfo | null> {
+  for (const rebaseDir of ["rebase-merge", "rebase-apply"]) {
+    const headName = await readGitFile(gitDir, rebaseDir, "head-name");
+    if (headName !== null) {
+      return {
+        name:
+          headName && headName !== "detached HEAD"
+            ? stripHeadsPrefix(headName)
+            : currentBranch || (await detachedName()),
+        state: "rebase",
+      };
+    }
+  }
+
+  const markers: [string, GitState][] = [
+    ["MERGE_HEAD", "merge"],
+    ["CHERRY_PICK_HEAD", "cherry-pick"],
+    ["REVERT_HEAD", "revert"],
+  ];
+  for (const [marker, state] of markers) {
+    if ((await readGitFile(gitDir, marker)) !== null) {
+      return {
+        name: currentBranch || (await detachedName()),
+        state,
+      };
+    }
+  }
+
+  if ((await readGitFile(gitDir, "BISECT_LOG")) !== null) {
+    // BISECT_START holds the branch (or commit) bisect was started from
+    const bisectStart = await readGitFile(gitDir, "BISECT_START");
+    const startedFromBranch =
+      bisectStart && !/^[0-9a-f]{40}$/i.test(bisectStart);
+    return {
+      name: startedFromBranch
+        ? stripHeadsPrefix(bisectStart as string)
+        : currentBranch || (await detachedName()),
+      state: "bisect",
+    };
+  }
+
+  return null;
+}
+
+/**
+ * Like getCurrentBranch, for a HEAD already known (e.g. from the built-in
+ * git extension), without spawning git. Only the marker files in `gitDir`
+ * are read.
+ */
+export async function getBranchFromHead(
+  gitDir: string,
+  head: { name?: string; commit?: string }
+): Promise<BranchInfo> {
+  // git's default abbreviation
+  const detached = `detached@${
+    head.commit ? head.commit.slice(0, 7) : "unknown"
+  }`;
+  const special = await getInProgressOperation(
+    gitDir,
+    head.name || "",
+    async () => detached
+  );
+  if (special) {
+    return special;
+  }
+  return head.name
+    ? { name: head.name, state: "branch" }
+    : { name: detached, state: "detached" };
+}
+
+async function getDetachedName(cwd: string): Promise<string> {
+  try {
+    const { stdout } = await execAsync("git rev-parse --short HEAD", {
+      cwd,
+      timeout: 5000,
+    });
+    return `detached@${stdout.trim()}`;
+  } catch (error) {
+    return "detached@unknown";
+  }
+}
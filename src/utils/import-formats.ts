@@ -0,0 +1,258 @@
+import * as path from "path";
+import { TimeEntry } from "../interfaces/time-tracker";
+import { EXPORT_FORMAT } from "./export-formats";
+import { normalizeRemoteUrl } from "./git-utils";
+import { DayOptions, getEntryDate, parseDateTime } from "./date-utils";
+import { parseEntry } from "./time-entry-schema";
+
+export interface ParsedImport {
+  entries: TimeEntry[];
+  invalid: number; // rows or records that could not be used
+}
+
+// Accepted CSV header names, compared case-insensitively
+const CSV_COLUMNS = {
+  repositoryId: ["repository_id", "repo_id"],
+  repository: ["repository", "repo", "project"],
+  branch: ["branch"],
+  start: ["start", "start_time", "started", "from"],
+  end: ["end", "end_time", "ended", "to"],
+};
+
+/** Splits CSV text into rows of fields, honouring quoted fields. */
+export function parseCsv(text: string): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = "";
+  let inQuotes = false;
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+
+    if (inQuotes) {
+      if (char === '"' && text[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"') {
+      inQuotes = true;
+    } else if (char === ",") {
+      row.push(field);
+      field = "";
+    } else if (char === "\n" || char === "\r") {
+      if (char === "\r" && text[i + 1] === "\n") {
+        i++;
+      }
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = "";
+    } else {
+      field += char;
+    }
+  }
+
+  if (field || row.length > 0) {
+    row.push(field);
+    rows.push(row);
+  }
+
+  return rows.filter((fields) => fields.some((value) => value.trim()));
+}
+
+// Date and time without an offset, e.g. `2024-05-01 09:30` or
+// `2024-05-01T09:30:15.250`
+const LOCAL_DATE_TIME =
+  /^(\d{4}-\d{2}-\d{2}[ T]\d{1,2}:\d{2})(?::(\d{2}(?:\.\d+)?))?$/;
+
+/**
+ * Milliseconds since the epoch, ISO dates with an offset, or wall-clock
+ * times in `timeZone` (the system zone when undefined).
+ */
+const parseTimestamp = (
+  value: string | undefined,
+  timeZone?: string
+): number | null => {
+  if (!value || !value.trim()) {
+    return null;
+  }
+  const trimmed = value.trim();
+  if (/^\d+$/.test(trimmed)) {
+    return Number(trimmed);
+  }
+
+  const local = LOCAL_DATE_TIME.exec(trimmed);
+  if (local) {
+    const minute = parseDateTime(local[1], timeZone);
+    const seconds = Number(local[2] || 0);
+    return minute !== null && seconds < 60
+      ? minute + Math.round(seconds * 1000)
+      : null;
+  }
+  const timestamp = new Date(trimmed).getTime();
+  return Number.isFinite(timestamp) ? timestamp : null;
+};
+
+/** A repository column may hold a remote URL, a path or just a name. */
+const toRepository = (
+  value: string
+): { repository: string; repositoryName: string } => {
+  const remote = normalizeRemoteUrl(value);
+  if (remote) {
+    return { repository: remote, repositoryName: path.posix.basename(remote) };
+  }
+  const normalized = value.replace(/\\/g, "/").replace(/\/+$/, "");
+  return {
+    repository: normalized,
+    repositoryName: path.posix.basename(normalized) || normalized,
+  };
+};
+
+function parseTimesheetCsv(text: string, days: DayOptions): ParsedImport {
+  const [header, ...rows] = parseCsv(text);
+  if (!header) {
+    return { entries: [], invalid: 0 };
+  }
+
+  const names = header.map((name) => name.trim().toLowerCase());
+  const column = (aliases: string[]) =>
+    names.findIndex((name) => aliases.includes(name));
+  const columns = {
+    repositoryId: column(CSV_COLUMNS.repositoryId),
+    repository: column(CSV_COLUMNS.repository),
+    branch: column(CSV_COLUMNS.branch),
+    start: column(CSV_COLUMNS.start),
+    end: column(CSV_COLUMNS.end),
+  };
+
+  if (
+    (columns.repository < 0 && columns.repositoryId < 0) ||
+    columns.branch < 0 ||
+    columns.start < 0 ||
+    columns.end < 0
+  ) {
+    throw new Error(
+      "The CSV file needs repository, branch, start and end columns."
+    );
+  }
+
+  const entries: TimeEntry[] = [];
+  let invalid = 0;
+
+  rows.forEach((fields) => {
+    const idValue = fields[columns.repositoryId]?.trim();
+    const nameValue = fields[columns.repository]?.trim();
+    const branch = fields[columns.branch]?.trim();
+    const startTime = parseTimestamp(fields[columns.start], days.timeZone);
+    const endTime = parseTimestamp(fields[columns.end], days.timeZone);
+
+    if (
+      !(idValue || nameValue) ||
+      !branch ||
+      startTime === null ||
+      endTime === null ||
+      endTime <= startTime
+    ) {
+      invalid++;
+      return;
+    }
+
+    // Our own CSV export has both: the id and the display label
+    const repository = idValue
+      ? {
+          repository: idValue,
+          repositoryName: toRepository(idValue).repositoryName,
+        }
+      : toRepository(nameValue as string);
+
+    entries.push({
+      date: getEntryDate(startTime, days),
+      ...repository,
+      branch,
+      duration: Math.floor((endTime - startTime) / 1000),
+      startTime,
+      endTime,
+    });
+  });
+
+  return { entries, invalid };
+}
+
+function parseJsonImport(text: string): ParsedImport {
+  const data = JSON.parse(text);
+
+  // An export of this extension, or a raw data file of an older version
+  let records: unknown[];
+  let version = 0;
+  if (Array.isArray(data)) {
+    records = data;
+  } else if (data && data.format === EXPORT_FORMAT) {
+    records = Array.isArray(data.entries) ? data.entries : [];
+    version = typeof data.version === "number" ? data.version : 0;
+  } else {
+    throw new Error("This JSON file is not a Git Branch Time Tracker export.");
+  }
+
+  const entries = records
+    .map((record) => parseEntry(record, version))
+    .filter((entry): entry is TimeEntry => entry !== null);
+
+  return { entries, invalid: records.length - entries.length };
+}
+
+const isHeader = (record: unknown): record is { version: number } =>
+  typeof record === "object" &&
+  record !== null &&
+  typeof (record as { version?: unknown }).version === "number";
+
+function parseNdjsonImport(text: string): ParsedImport {
+  const lines = text.split(/\r?\n/).filter((line) => line.trim());
+  const entries: TimeEntry[] = [];
+  let version = 0;
+  let invalid = 0;
+
+  lines.forEach((line, index) => {
+    let record: unknown;
+    try {
+      record = JSON.parse(line);
+    } catch (error) {
+      invalid++;
+      return;
+    }
+    if (index === 0 && isHeader(record)) {
+      version = record.version;
+      return;
+    }
+    const entry = parseEntry(record, version);
+    if (entry) {
+      entries.push(entry);
+    } else {
+      invalid++;
+    }
+  });
+
+  return { entries, invalid };
+}
+
+/**
+ * Reads a JSON export, a journal/snapshot file copied from another machine,
+ * or a timesheet CSV with repository, branch, start and end columns.
+ */
+export function parseImportFile(
+  fileName: string,
+  text: string,
+  days: DayOptions
+): ParsedImport {
+  const extension = path.extname(fileName).toLowerCase();
+  if (extension === ".csv") {
+    return parseTimesheetCsv(text, days);
+  }
+  if (extension === ".ndjson") {
+    return parseNdjsonImport(text);
+  }
+  return parseJsonImport(text);
+}
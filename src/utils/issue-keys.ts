@@ -0,0 +1,86 @@
+import { TimeEntry, IssueSummary } from "../interfaces/time-tracker";
+
+export const DEFAULT_ISSUE_KEY_PATTERNS = ["[A-Z][A-Z0-9]+-\\d+"];
+
+const compiled = new Map<string, RegExp | null>();
+
+const compile = (pattern: string): RegExp | null => {
+  if (!compiled.has(pattern)) {
+    try {
+      compiled.set(pattern, new RegExp(pattern));
+    } catch (error) {
+      console.error("Invalid issue key pattern:", pattern, error);
+      compiled.set(pattern, null);
+    }
+  }
+  return compiled.get(pattern) as RegExp | null;
+};
+
+export function isValidPattern(pattern: string): boolean {
+  return compile(pattern) !== null;
+}
+
+/**
+ * Issue key in a branch name, e.g. PROJ-123 in feature/PROJ-123-login-fix.
+ * Patterns are tried in order; a pattern's first capture group is used as
+ * the key when it has one, the whole match otherwise.
+ */
+export function extractIssueKey(
+  branch: string,
+  patterns: string[]
+): string | null {
+  for (const pattern of patterns) {
+    const match = compile(pattern)?.exec(branch);
+    if (match) {
+      return match[1] || match[0];
+    }
+  }
+  return null;
+}
+
+/** Totals per issue key, most recently worked on first. */
+export function summarizeByIssue(
+  entries: TimeEntry[],
+  patterns: string[]
+): IssueSummary[] {
+  const issues = new Map<string, IssueSummary>();
+
+  entries.forEach((entry) => {
+    const key = extractIssueKey(entry.branch, patterns);
+    if (!key) {
+      return;
+    }
+
+    const issue = issues.get(key) || {
+      key,
+      duration: 0,
+      sessions: 0,
+      lastActivity: 0,
+      branches: [],
+    };
+    issue.duration += entry.duration;
+    issue.sessions++;
+    issue.lastActivity = Math.max(issue.lastActivity, entry.endTime);
+
+    const branch = issue.branches.find(
+      (other) =>
+        other.repository === entry.repository && other.branch === entry.branch
+    );
+    if (branch) {
+      branch.duration += entry.duration;
+    } else {
+      issue.branches.push({
+        repository: entry.repository,
+        branch: entry.branch,
+        duration: entry.duration,
+      });
+    }
+    issues.set(key, issue);
+  });
+
+  const summaries = Array.from(issues.values());
+  summaries.forEach((issue) =>
+    issue.branches.sort((a, b) => b.duration - a.duration)
+  );
+  return summaries.sort((a, b) => b.lastActivity - a.lastActivity);
+}
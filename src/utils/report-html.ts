@@ -0,0 +1,456 @@
+import {
+  ActivitySource,
+  Report,
+  ReportPeriod,
+  ReportRow,
+  SourceTimes,
+} from "../interfaces/time-tracker";
+import { fromDateKey } from "./date-utils";
+import { reportBranchKey, splitBranchKey } from "./report";
+import { formatDuration, escapeHtml } from "./format";
+import { ACTIVITY_SOURCES, ACTIVITY_SOURCE_LABELS } from "./activity-sources";
+
+// Branches beyond this many are stacked together as "Other"
+const CHART_BRANCHES = 6;
+const TABLE_ROWS = 10;
+
+// Theme colors, so charts follow light, dark and high contrast themes
+const CHART_COLORS = [
+  "var(--vscode-charts-blue)",
+  "var(--vscode-charts-green)",
+  "var(--vscode-charts-orange)",
+  "var(--vscode-charts-purple)",
+  "var(--vscode-charts-yellow)",
+  "var(--vscode-charts-red)",
+];
+const OTHER_COLOR = "var(--vscode-descriptionForeground)";
+const SOURCE_COLORS: { [source in ActivitySource]: string } = {
+  coding: "var(--vscode-charts-blue)",
+  reading: "var(--vscode-charts-purple)",
+  terminal: "var(--vscode-charts-orange)",
+  debugging: "var(--vscode-charts-red)",
+  notebook: "var(--vscode-charts-yellow)",
+  task: "var(--vscode-charts-green)",
+};
+
+const PERIODS: { period: ReportPeriod; label: string }[] = [
+  { period: "thisWeek", label: "This week" },
+  { period: "lastWeek", label: "Last week" },
+  { period: "thisMonth", label: "This month" },
+  { period: "custom", label: "Custom…" },
+];
+
+const WEEKDAYS = ["Mon", "", "Wed", "", "Fri", "", ""];
+const MONTHS = [
+  "Jan",
+  "Feb",
+  "Mar",
+  "Apr",
+  "May",
+  "Jun",
+  "Jul",
+  "Aug",
+  "Sep",
+  "Oct",
+  "Nov",
+  "Dec",
+];
+
+export const REPORT_STYLES = `
+                .periods {
+                    display: flex;
+                    flex-wrap: wrap;
+                    gap: 4px;
+                    margin-bottom: 10px;
+                }
+                .period {
+                    background: none;
+                    color: var(--vscode-foreground);
+                    border: 1px solid var(--vscode-panel-border);
+                    border-radius: 10px;
+                    padding: 2px 10px;
+                    font-size: 11px;
+                    cursor: pointer;
+                }
+                .period.selected {
+                    background-color: var(--vscode-button-background);
+                    color: var(--vscode-button-foreground);
+                    border-color: var(--vscode-button-background);
+                }
+                .chart {
+                    width: 100%;
+                    height: auto;
+                    overflow: visible;
+                }
+                .chart text {
+                    font-size: 9px;
+                    fill: var(--vscode-descriptionForeground);
+                }
+                .legend {
+                    display: flex;
+                    flex-wrap: wrap;
+                    gap: 4px 10px;
+                    margin-top: 6px;
+                    font-size: 11px;
+                }
+                .swatch {
+                    display: inline-block;
+                    width: 8px;
+                    height: 8px;
+                    margin-right: 4px;
+                    border-radius: 2px;
+                }
+                .report-table {
+                    width: 100%;
+                    border-collapse: collapse;
+                    font-size: 11px;
+                }
+                .report-table td {
+                    padding: 2px 4px;
+                    border-bottom: 1px solid var(--vscode-panel-border);
+                }
+                .report-table td.number {
+                    text-align: right;
+                    white-space: nowrap;
+                }
+                .source-bar {
+                    display: flex;
+                    width: 100%;
+                    min-width: 40px;
+                    height: 6px;
+                    border-radius: 3px;
+                    overflow: hidden;
+                }
+                .report-table .source-bar {
+                    width: 60px;
+                }
+                .change-up {
+                    color: var(--vscode-charts-green);
+                }
+                .change-down {
+                    color: var(--vscode-charts-red);
+                }
+`;
+
+/** Difference from the previous period, e.g. "+1h 5m (+20%)". */
+function formatChange(current: number, previous: number): string {
+  if (current === previous) {
+    return "±0";
+  }
+  const difference = current - previous;
+  const percent =
+    previous > 0
+      ? ` (${difference > 0 ? "+" : "−"}${Math.round(
+          (Math.abs(difference) / previous) * 100
+        )}%)`
+      : "";
+  return `${difference > 0 ? "+" : "−"}${formatDuration(
+    Math.abs(difference)
+  )}${percent}`;
+}
+
+function renderChange(current: number, previous: number): string {
+  const className =
+    current > previous ? "change-up" : current < previous ? "change-down" : "";
+  return `<span class="${className}">${formatChange(current, previous)}</span>`;
+}
+
+/** Stacked bars of time per day, one color per branch. */
+function renderDailyChart(
+  report: Report,
+  branchLabel: (key: string) => string
+): string {
+  const topBranches = report.branches
+    .slice(0, CHART_BRANCHES)
+    .map((row) => reportBranchKey(row.repository, row.branch as string));
+  const colorOf = (key: string) => {
+    const index = topBranches.indexOf(key);
+    return index >= 0 ? CHART_COLORS[index] : OTHER_COLOR;
+  };
+
+  const height = 120;
+  const top = 12;
+  const bottom = 14;
+  const slot = 20;
+  const width = Math.max(report.days.length * slot, 140);
+  const max = Math.max(...report.days.map((day) => day.total), 1);
+  const scale = (seconds: number) => (seconds / max) * (height - top - bottom);
+  // Label every day for weeks, fewer days for longer ranges
+  const labelEvery = Math.ceil(report.days.length / 10);
+
+  const bars = report.days
+    .map((day, index) => {
+      const x = index * slot + 3;
+      let y = height - bottom;
+      // Top branches from the bottom up, then the rest in one segment
+      const segments = [
+        ...topBranches.map((key) => ({ key, value: day.branches[key] || 0 })),
+        {
+          key: "",
+          value:
+            day.total -
+            topBranches.reduce((sum, key) => sum + (day.branches[key] || 0), 0),
+        },
+      ].filter(({ value }) => value > 0);
+
+      const rects = segments
+        .map(({ key, value }) => {
+          const barHeight = scale(value);
+          y -= barHeight;
+          return `<rect x="${x}" y="${y.toFixed(1)}" width="${
+            slot - 6
+          }" height="${barHeight.toFixed(1)}" style="fill: ${
+            key ? colorOf(key) : OTHER_COLOR
+          }"><title>${day.date} · ${escapeHtml(
+            key ? branchLabel(key) : "Other"
+          )}: ${formatDuration(value)}</title></rect>`;
+        })
+        .join("");
+      const label =
+        index % labelEvery === 0
+          ? `<text x="${x + (slot - 6) / 2}" y="${
+              height - 3
+            }" text-anchor="middle">${day.date.slice(8)}</text>`
+          : "";
+      return rects + label;
+    })
+    .join("");
+
+  const legend = [
+    ...topBranches.map(
+      (key) =>
+        `<span><span class="swatch" style="background: ${colorOf(
+          key
+        )}"></span>${escapeHtml(branchLabel(key))}</span>`
+    ),
+    ...(report.branches.length > CHART_BRANCHES
+      ? [
+          `<span><span class="swatch" style="background: ${OTHER_COLOR}"></span>Other</span>`,
+        ]
+      : []),
+  ].join("");
+
+  return `
+        <svg class="chart" viewBox="0 0 ${width} ${height}" role="img" aria-label="Time per day">
+            <text x="0" y="8">${formatDuration(max)}</text>
+            <line x1="0" y1="${height - bottom}" x2="${width}" y2="${
+    height - bottom
+  }" style="stroke: var(--vscode-panel-border)" />
+            ${bars}
+        </svg>
+        <div class="legend">${legend}</div>`;
+}
+
+/** GitHub-style calendar of daily totals, one column per week. */
+function renderHeatmap(report: Report): string {
+  const cell = 10;
+  const gap = 2;
+  const left = 24;
+  const top = 12;
+  const max = Math.max(...report.heatmap.map((day) => day.total), 1);
+
+  let previousMonth = -1;
+  const cells = report.heatmap
+    .map(({ date, total }, index) => {
+      const week = Math.floor(index / 7);
+      const weekday = index % 7;
+      const x = left + week * (cell + gap);
+      const y = top + weekday * (cell + gap);
+      const level = total > 0 ? Math.ceil((total / max) * 4) : 0;
+
+      let monthLabel = "";
+      const month = fromDateKey(date).getMonth();
+      if (weekday === 0 && month !== previousMonth) {
+        previousMonth = month;
+        monthLabel = `<text x="${x}" y="${top - 3}">${MONTHS[month]}</text>`;
+      }
+      return `${monthLabel}<rect x="${x}" y="${y}" width="${cell}" height="${cell}" rx="2" style="fill: ${
+        level > 0
+          ? `var(--vscode-charts-green); fill-opacity: ${level * 0.25}`
+          : "var(--vscode-panel-border)"
+      }"><title>${date}: ${formatDuration(total)}</title></rect>`;
+    })
+    .join("");
+
+  const weeks = Math.ceil(report.heatmap.length / 7);
+  const labels = WEEKDAYS.map((label, weekday) =>
+    label
+      ? `<text x="0" y="${
+          top + weekday * (cell + gap) + cell - 1
+        }">${label}</text>`
+      : ""
+  ).join("");
+  return `
+        <svg class="chart" viewBox="0 0 ${left + weeks * (cell + gap)} ${
+    top + 7 * (cell + gap)
+  }" role="img" aria-label="Daily totals">
+            ${labels}
+            ${cells}
+        </svg>`;
+}
+
+const sourceEntries = (sources: SourceTimes) =>
+  ACTIVITY_SOURCES.filter((source) => sources[source]).map((source) => ({
+    source,
+    duration: sources[source]!,
+  }));
+
+/** One bar split by activity source, the split in its tooltip. */
+function renderSourceBar(sources: SourceTimes): string {
+  const entries = sourceEntries(sources);
+  const total = entries.reduce((sum, { duration }) => sum + duration, 0);
+  if (total === 0) {
+    return "";
+  }
+
+  const title = entries
+    .map(
+      ({ source, duration }) =>
+        `${ACTIVITY_SOURCE_LABELS[source]}: ${formatDuration(duration)}`
+    )
+    .join(", ");
+  return `<span class="source-bar" title="${title}">${entries
+    .map(
+      ({ source, duration }) =>
+        `<span style="width: ${((duration / total) * 100).toFixed(
+          1
+        )}%; background: ${SOURCE_COLORS[source]}"></span>`
+    )
+    .join("")}</span>`;
+}
+
+/** Coding, reading, terminal etc. time of the period. */
+function renderSources(report: Report): string {
+  const entries = sourceEntries(report.sources);
+  const total = entries.reduce((sum, { duration }) => sum + duration, 0);
+  const legend = entries
+    .map(
+      ({ source, duration }) =>
+        `<span><span class="swatch" style="background: ${
+          SOURCE_COLORS[source]
+        }"></span>${ACTIVITY_SOURCE_LABELS[source]} ${formatDuration(
+          duration
+        )} (${Math.round((duration / total) * 100)}%)</span>`
+    )
+    .join("");
+  return `
+        ${renderSourceBar(report.sources)}
+        <div class="legend">${legend}</div>
+        ${
+          total < report.total
+            ? `<div class="legend">${formatDuration(
+                report.total - total
+              )} entered by hand or tracked before sources were recorded is not included.</div>`
+            : ""
+        }`;
+}
+
+function renderTable(
+  rows: ReportRow[],
+  total: number,
+  label: (row: ReportRow) => string
+): string {
+  return `
+        <table class="report-table">
+            ${rows
+              .slice(0, TABLE_ROWS)
+              .map(
+                (row) => `
+                <tr>
+                    <td>${escapeHtml(label(row))}</td>
+                    ${
+                      row.sources
+                        ? `<td>${renderSourceBar(row.sources)}</td>`
+                        : ""
+                    }
+                    <td class="number">${formatDuration(row.duration)}</td>
+                    <td class="number">${Math.round(
+                      (row.duration / Math.max(total, 1)) * 100
+                    )}%</td>
+                    <td class="number">${renderChange(
+                      row.duration,
+                      row.previousDuration
+                    )}</td>
+                </tr>`
+              )
+              .join("")}
+        </table>`;
+}
+
+/** Reports mode of the dashboard: period picker, charts and top lists. */
+export function renderReport(
+  report: Report,
+  period: ReportPeriod,
+  repositoryLabels: { [repository: string]: string }
+): string {
+  const repositoryLabel = (repository: string) =>
+    repositoryLabels[repository] || repository;
+  const branchLabel = (key: string) => {
+    const { repository, branch } = splitBranchKey(key);
+    return `${repositoryLabel(repository)}/${branch}`;
+  };
+
+  return `
+        <div class="periods">
+            ${PERIODS.map(
+              (option) =>
+                `<button class="period${
+                  option.period === period ? " selected" : ""
+                }" data-command="setReportPeriod" data-period="${
+                  option.period
+                }">${option.label}</button>`
+            ).join("")}
+        </div>
+
+        <div class="summary">
+            <strong>📈 ${report.range.from} – ${
+    report.range.to
+  }:</strong> ${formatDuration(report.total)}
+            <div>${renderChange(report.total, report.previousTotal)} vs ${
+    report.previousRange.from
+  } – ${report.previousRange.to} (${formatDuration(report.previousTotal)})</div>
+        </div>
+
+        <div class="repo-section">
+            <div class="repo-title"><span class="repo-icon">📊</span>Time per Day</div>
+            ${
+              report.total > 0
+                ? renderDailyChart(report, branchLabel)
+                : `<div class="time-entry">No time tracked in this period.</div>`
+            }
+        </div>
+
+        <div class="repo-section">
+            <div class="repo-title"><span class="repo-icon">🗓️</span>Activity</div>
+            ${renderHeatmap(report)}
+        </div>
+
+        ${
+          report.total > 0
+            ? `
+        ${
+          sourceEntries(report.sources).length > 0
+            ? `
+        <div class="repo-section">
+            <div class="repo-title"><span class="repo-icon">⚡</span>Activity Sources</div>
+            ${renderSources(report)}
+        </div>`
+            : ""
+        }
+
+        <div class="repo-section">
+            <div class="repo-title"><span class="repo-icon">🌿</span>Top Branches</div>
+            ${renderTable(report.branches, report.total, (row) =>
+              branchLabel(reportBranchKey(row.repository, row.branch as string))
+            )}
+        </div>
+
+        <div class="repo-section">
+            <div class="repo-title"><span class="repo-icon">📁</span>Top Repositories</div>
+            ${renderTable(report.repositories, report.total, (row) =>
+              repositoryLabel(row.repository)
+            )}
+        </div>`
+            : ""
+        }`;
+}
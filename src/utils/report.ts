@@ -0,0 +1,206 @@
+import {
+  TimeEntry,
+  Report,
+  ReportDay,
+  ReportPeriod,
+  ReportRange,
+  ReportRow,
+  SourceTimes,
+} from "../interfaces/time-tracker";
+import {
+  DayOptions,
+  addDays,
+  fromDateKey,
+  splitEntryByDay,
+  startOfWeek,
+  toDateKey,
+} from "./date-utils";
+import { scaleSources, sumSources } from "./activity-sources";
+
+const shiftDate = (key: string, days: number) =>
+  toDateKey(addDays(fromDateKey(key), days));
+
+// Longest custom range a report is built for, in days
+export const MAX_REPORT_DAYS = 366;
+
+/**
+ * Key of a branch in report totals. Git allows `|` in branch names but no
+ * NUL, so the key splits back unambiguously; see splitBranchKey.
+ */
+export const reportBranchKey = (repository: string, branch: string) =>
+  `${repository}\0${branch}`;
+
+export function splitBranchKey(key: string): {
+  repository: string;
+  branch: string;
+} {
+  const [repository, branch] = key.split("\0");
+  return { repository, branch };
+}
+
+/** Number of days from `range.from` to `range.to`, inclusive. */
+export function countDays(range: ReportRange): number {
+  const span =
+    fromDateKey(range.to).getTime() - fromDateKey(range.from).getTime();
+  // Rounded, as days around DST changes are an hour short or long
+  return Math.round(span / (24 * 60 * 60 * 1000)) + 1;
+}
+
+/** Every date from `range.from` to `range.to`, inclusive. */
+export function datesInRange(range: ReportRange): string[] {
+  const dates: string[] = [];
+  for (let date = range.from; date <= range.to; date = shiftDate(date, 1)) {
+    dates.push(date);
+  }
+  return dates;
+}
+
+/** Days of a preset period, up to and including `today`. */
+export function getReportRange(
+  period: Exclude<ReportPeriod, "custom">,
+  today: string
+): ReportRange {
+  const monday = toDateKey(startOfWeek(fromDateKey(today)));
+  switch (period) {
+    case "thisWeek":
+      return { from: monday, to: today };
+    case "lastWeek":
+      return { from: shiftDate(monday, -7), to: shiftDate(monday, -1) };
+    case "thisMonth":
+      return { from: `${today.slice(0, 8)}01`, to: today };
+  }
+}
+
+/**
+ * Range to compare against: the same days of the previous month for a
+ * range starting on the 1st, otherwise as many days right before it.
+ */
+export function getPreviousRange(range: ReportRange): ReportRange {
+  if (range.from.endsWith("-01")) {
+    const start = fromDateKey(range.from);
+    const previousStart = new Date(
+      start.getFullYear(),
+      start.getMonth() - 1,
+      1
+    );
+    const length = datesInRange(range).length;
+    const monthLength = datesInRange({
+      from: toDateKey(previousStart),
+      to: shiftDate(range.from, -1),
+    }).length;
+    if (length <= monthLength) {
+      return {
+        from: toDateKey(previousStart),
+        to: toDateKey(addDays(previousStart, length - 1)),
+      };
+    }
+  }
+
+  const length = datesInRange(range).length;
+  return {
+    from: shiftDate(range.from, -length),
+    to: shiftDate(range.from, -1),
+  };
+}
+
+const inRange = (date: string, range: ReportRange) =>
+  date >= range.from && date <= range.to;
+
+const toRows = (
+  current: Map<string, number>,
+  previous: Map<string, number>,
+  toRow: (key: string) => Omit<ReportRow, "duration" | "previousDuration">
+): ReportRow[] =>
+  Array.from(current.entries())
+    .map(([key, duration]) => ({
+      ...toRow(key),
+      duration,
+      previousDuration: previous.get(key) || 0,
+    }))
+    .sort((a, b) => b.duration - a.duration);
+
+const add = (totals: Map<string, number>, key: string, duration: number) =>
+  totals.set(key, (totals.get(key) || 0) + duration);
+
+/**
+ * Totals for a range, compared with the one before it, plus daily totals
+ * over `heatmapWeeks` whole weeks ending with the range.
+ */
+export function buildReport(
+  entries: TimeEntry[],
+  range: ReportRange,
+  days: DayOptions,
+  heatmapWeeks = 26
+): Report {
+  const previousRange = getPreviousRange(range);
+  const heatmapRange = {
+    from: shiftDate(
+      toDateKey(startOfWeek(fromDateKey(range.to))),
+      -7 * (heatmapWeeks - 1)
+    ),
+    to: range.to,
+  };
+
+  const reportDays = new Map<string, ReportDay>(
+    datesInRange(range).map((date) => [date, { date, total: 0, branches: {} }])
+  );
+  const heatmap = new Map<string, number>(
+    datesInRange(heatmapRange).map((date) => [date, 0])
+  );
+  const branches = new Map<string, number>();
+  const previousBranches = new Map<string, number>();
+  const repositories = new Map<string, number>();
+  const previousRepositories = new Map<string, number>();
+  const branchSources = new Map<string, SourceTimes[]>();
+
+  entries.forEach((entry) => {
+    const branchKey = reportBranchKey(entry.repository, entry.branch);
+    splitEntryByDay(entry, days).forEach(({ date, duration }) => {
+      if (heatmap.has(date)) {
+        heatmap.set(date, (heatmap.get(date) || 0) + duration);
+      }
+      const day = reportDays.get(date);
+      if (day) {
+        day.total += duration;
+        day.branches[branchKey] = (day.branches[branchKey] || 0) + duration;
+        add(branches, branchKey, duration);
+        add(repositories, entry.repository, duration);
+        if (entry.sources) {
+          const pieces = branchSources.get(branchKey);
+          const scaled = scaleSources(entry.sources, duration);
+          if (pieces) {
+            pieces.push(scaled);
+          } else {
+            branchSources.set(branchKey, [scaled]);
+          }
+        }
+      } else if (inRange(date, previousRange)) {
+        add(previousBranches, branchKey, duration);
+        add(previousRepositories, entry.repository, duration);
+      }
+    });
+  });
+
+  const sum = (totals: Map<string, number>) =>
+    Array.from(totals.values()).reduce((total, value) => total + value, 0);
+
+  return {
+    range,
+    previousRange,
+    total: sum(repositories),
+    previousTotal: sum(previousRepositories),
+    days: Array.from(reportDays.values()),
+    branches: toRows(branches, previousBranches, (key) => ({
+      ...splitBranchKey(key),
+      sources: sumSources(branchSources.get(key) || []),
+    })),
+    repositories: toRows(repositories, previousRepositories, (repository) => ({
+      repository,
+    })),
+    sources: sumSources(Array.from(branchSources.values()).flat()),
+    heatmap: Array.from(heatmap.entries()).map(([date, total]) => ({
+      date,
+      total,
+    })),
+  };
+}
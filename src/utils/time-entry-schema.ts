@@ -0,0 +1,124 @@
+import { TimeEntry, GitState, IdleDecision } from "../interfaces/time-tracker";
+
+/**
+ * Version of the stored TimeEntry shape. Bump it together with a new entry
+ * in `migrations` whenever a field is added, renamed or reinterpreted.
+ *
+ * - 0: data written before versioning (legacy JSON array, headerless NDJSON)
+ * - 1: versioned NDJSON headers
+ * - 2: optional `manual` and `idle` markers
+ * - 3: optional `sources` breakdown
+ * - 4: optional `files` breakdown
+ * - 5: optional `worktree`
+ * - 6: `discarded` idle gaps
+ */
+export const SCHEMA_VERSION = 6;
+
+// migrations[n] upgrades a raw entry from version n to n + 1
+const migrations: { [fromVersion: number]: (entry: any) => any } = {
+  0: (entry) => ({
+    ...entry,
+    // Very early builds could leave these out
+    date:
+      entry.date ??
+      (typeof entry.startTime === "number"
+        ? new Date(entry.startTime).toISOString().split("T")[0]
+        : undefined),
+    duration:
+      entry.duration ??
+      (typeof entry.startTime === "number" && typeof entry.endTime === "number"
+        ? Math.floor((entry.endTime - entry.startTime) / 1000)
+        : undefined),
+  }),
+  // Only adds optional fields; older entries are valid as they are
+  1: (entry) => entry,
+  2: (entry) => entry,
+  3: (entry) => entry,
+  4: (entry) => entry,
+  5: (entry) => entry,
+};
+
+const GIT_STATES: GitState[] = [
+  "branch",
+  "detached",
+  "rebase",
+  "merge",
+  "cherry-pick",
+  "revert",
+  "bisect",
+];
+
+const IDLE_DECISIONS: IdleDecision[] = ["kept", "reassigned", "discarded"];
+
+const isNonEmptyString = (value: unknown): value is string =>
+  typeof value === "string" && value.length > 0;
+
+const isTimestamp = (value: unknown): value is number =>
+  typeof value === "number" && Number.isFinite(value) && value >= 0;
+
+// Unknown sources may come from newer versions and are ignored on display
+const isSourceTimes = (value: unknown): boolean =>
+  !!value &&
+  typeof value === "object" &&
+  !Array.isArray(value) &&
+  Object.values(value as object).every(isTimestamp);
+
+const isFileTimes = (value: unknown): boolean =>
+  Array.isArray(value) &&
+  value.every(
+    (file) =>
+      file &&
+      isNonEmptyString(file.path) &&
+      typeof file.language === "string" &&
+      isTimestamp(file.duration)
+  );
+
+export function migrateEntry(raw: any, fromVersion: number): any {
+  let entry = raw;
+  for (let version = fromVersion; version < SCHEMA_VERSION; version++) {
+    entry = migrations[version](entry);
+  }
+  return entry;
+}
+
+/** Returns the entry if it has the current shape, null otherwise. */
+export function validateEntry(entry: any): TimeEntry | null {
+  if (
+    !entry ||
+    typeof entry !== "object" ||
+    !isNonEmptyString(entry.repository) ||
+    !isNonEmptyString(entry.branch) ||
+    typeof entry.date !== "string" ||
+    !/^\d{4}-\d{2}-\d{2}$/.test(entry.date) ||
+    !isTimestamp(entry.startTime) ||
+    !isTimestamp(entry.endTime) ||
+    entry.endTime < entry.startTime ||
+    !isTimestamp(entry.duration)
+  ) {
+    return null;
+  }
+
+  if (
+    (entry.repositoryName !== undefined &&
+      !isNonEmptyString(entry.repositoryName)) ||
+    (entry.gitState !== undefined && !GIT_STATES.includes(entry.gitState)) ||
+    (entry.manual !== undefined && entry.manual !== true) ||
+    (entry.idle !== undefined && !IDLE_DECISIONS.includes(entry.idle)) ||
+    (entry.sources !== undefined && !isSourceTimes(entry.sources)) ||
+    (entry.files !== undefined && !isFileTimes(entry.files)) ||
+    (entry.worktree !== undefined && !isNonEmptyString(entry.worktree))
+  ) {
+    return null;
+  }
+
+  return entry as TimeEntry;
+}
+
+/** Reads, migrates and validates one stored record. */
+export function parseEntry(raw: any, fromVersion: number): TimeEntry | null {
+  if (fromVersion > SCHEMA_VERSION) {
+    // Written by a newer version of the extension; keep what still fits
+    return validateEntry(raw);
+  }
+  return validateEntry(migrateEntry(raw, fromVersion));
+}